@@ -1,30 +1,106 @@
 import * as core from '@actions/core';
-import * as exec from '@actions/exec';
 import * as glob from '@actions/glob';
 import * as toolCache from '@actions/tool-cache';
-import { Node as XmlNode } from '@xmldom/xmldom';
+import { Document as XmlDocument, Element as XmlElement, Node as XmlNode } from '@xmldom/xmldom';
 import { strict as assert } from 'assert';
+import * as childProcess from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as semver from 'semver';
 import { SemVer } from 'semver';
+import { BootstrapDiagnostic, BootstrapErrorKind, isTransientFailure, parseBootstrapOutput } from './bootstrap-diagnostics';
+import { launcher } from './launcher';
 import * as modificationLog from './modification-log';
-import { LocalNuGetPackage, NuGetPackageSource } from './nuget';
+import { compareNuGetVersions, getPackageDownloadUrl, isSemVer, LocalNuGetPackage, NuGetPackageOverride, NuGetPackageSource, NuGetPackageSourceCredential, parseNuGetVersion } from './nuget';
 import * as util from './util';
 import * as xpath from './xpath-extra';
 import AdmZip = require('adm-zip');
 
+// Describes the credentials added to a NuGet.config so that they can be removed again later
+export interface PackageSourceCredentialsRecord {
+    nugetConfigPath: string;
+    elementNames: string[];
+    createdSection: boolean;
+    // Serialized credentials which were replaced by ours, keyed by element name
+    replacedElements: { [elementName: string]: string[] };
+}
+
+interface CommandResult {
+    exitCode: number;
+    timedOut: boolean;
+    output: string;
+}
+
+export type WorkflowStatus = 'passed' | 'failed' | 'timed-out';
+
+export interface WorkflowResult {
+    workflow: string;
+    environment: string;
+    status: WorkflowStatus;
+    exitCode: number;
+    duration: number;
+}
+
+// Launches a process and waits for it to exit, output is always captured and optionally passed through to our own output as it's produced
+// (We don't use @actions/exec here since it does not support timeouts.)
+function spawnCommand(command: string, args: string[], cwd: string, timeoutSeconds: number, passThrough: boolean): Promise<CommandResult> {
+    return new Promise((resolve, reject) => {
+        // When a timeout is used on POSIX platforms the process is placed in its own process group so that any processes it starts are killed along with it
+        const useProcessGroup = timeoutSeconds > 0 && process.platform != 'win32';
+        const child = childProcess.spawn(command, args, {
+            cwd: cwd,
+            stdio: ['ignore', 'pipe', 'pipe'],
+            detached: useProcessGroup,
+        });
+
+        let timedOut = false;
+        const timeout = timeoutSeconds <= 0 ? null : setTimeout(() => {
+            timedOut = true;
+            if (useProcessGroup) {
+                process.kill(-child.pid!, 'SIGTERM');
+            } else {
+                child.kill();
+            }
+        }, timeoutSeconds * 1000);
+
+        const output: Buffer[] = [];
+        child.stdout.on('data', data => {
+            output.push(data);
+            if (passThrough) {
+                process.stdout.write(data);
+            }
+        });
+        child.stderr.on('data', data => {
+            output.push(data);
+            if (passThrough) {
+                process.stderr.write(data);
+            }
+        });
+        child.on('error', error => {
+            clearTimeout(timeout ?? undefined);
+            reject(error);
+        });
+        child.on('close', exitCode => {
+            clearTimeout(timeout ?? undefined);
+            resolve({ exitCode: exitCode ?? -1, timedOut: timedOut, output: Buffer.concat(output).toString() });
+        });
+    });
+}
+
 export class BonsaiEnvironment {
     readonly rootPath: string;
     readonly relativePath: string;
     readonly bonsaiConfigPath: string;
     readonly nugetConfigPath: string;
     readonly packagesPath: string;
+    readonly checksumFilePath: string;
+    readonly lockFilePath: string;
+    readonly bonsaiExePath: string;
     readonly bonsaiVersion: SemVer;
 
     private static readonly packageVersionSelector = xpath.parse('//PackageConfiguration/Packages/Package[@id=$packageId]/@version');
 
-    public constructor(rootPath: string) {
+    public constructor(rootPath: string, bonsaiVersionOverride?: SemVer) {
         this.rootPath = rootPath;
         this.relativePath = path.relative(process.cwd(), rootPath);
 
@@ -41,6 +117,9 @@ export class BonsaiEnvironment {
         }
 
         this.packagesPath = path.join(rootPath, 'Packages');
+        this.checksumFilePath = path.join(rootPath, 'Bonsai.zip.sha256');
+        this.lockFilePath = path.join(rootPath, 'Bonsai.lock.json');
+        this.bonsaiExePath = path.join(rootPath, 'Bonsai.exe');
 
         // Determine the desired Bonsai version from the Bonsai.config
         const bonsaiConfigContent = fs.readFileSync(this.bonsaiConfigPath, 'utf8');
@@ -52,10 +131,73 @@ export class BonsaiEnvironment {
             throw Error(`Could not determine desired Bonsai version from '${relativeBonsaiConfigPath}'`);
         }
 
-        this.bonsaiVersion = semver.parse(bonsaiVerisonText.nodeValue)!;
-        if (!this.bonsaiVersion) {
+        const pinnedBonsaiVersion = semver.parse(bonsaiVerisonText.nodeValue);
+        if (!pinnedBonsaiVersion) {
             throw Error(`'${relativeBonsaiConfigPath}' specifies an invalid version string '${bonsaiVerisonText.nodeValue}' for Bonsai.`);
         }
+
+        // When the version is overridden we rewrite Bonsai.config immediately so that the cache key and everything downstream sees the new version
+        this.bonsaiVersion = pinnedBonsaiVersion;
+        if (bonsaiVersionOverride && !semver.eq(bonsaiVersionOverride, pinnedBonsaiVersion)) {
+            modificationLog.logFileModificationIntent(this.bonsaiConfigPath, { bonsaiVersionOverride: { from: pinnedBonsaiVersion.toString(), to: bonsaiVersionOverride.toString() } });
+            const bonsaiPackage = xpath.select1Element(BonsaiEnvironment.packageSelector, bonsaiConfig, { variables: { packageId: 'Bonsai' } })!;
+            bonsaiPackage.setAttribute('version', bonsaiVersionOverride.toString());
+            this.writeConfig(this.bonsaiConfigPath, util.xmlToString(bonsaiConfig));
+            this.bonsaiVersion = bonsaiVersionOverride;
+            core.info(`Overriding Bonsai ${pinnedBonsaiVersion} with Bonsai ${bonsaiVersionOverride} in '${relativeBonsaiConfigPath}'`);
+        }
+    }
+
+    // When running in dry run mode, modifications to configuration files are kept here rather than being written to disk
+    private readonly pendingChanges = new Map<string, string>();
+
+    public readConfig(filePath: string): string {
+        return this.pendingChanges.get(filePath) ?? fs.readFileSync(filePath, 'utf8');
+    }
+
+    private writeConfig(filePath: string, content: string): void {
+        if (util.inputs.dryRun) {
+            this.pendingChanges.set(filePath, content);
+        } else {
+            fs.writeFileSync(filePath, content);
+        }
+    }
+
+    public printPendingChanges(): void {
+        using _ = new util.ScopedGroup(`Changes which would be made to '${this.relativePath}'`);
+        if (this.pendingChanges.size == 0) {
+            core.info("No changes.");
+            return;
+        }
+
+        for (const [filePath, content] of this.pendingChanges) {
+            const relativePath = path.relative(process.cwd(), filePath);
+            let oldContent = fs.readFileSync(filePath, 'utf8');
+            let newContent = content;
+            if (filePath == this.nugetConfigPath) {
+                oldContent = BonsaiEnvironment.redactCredentials(oldContent);
+                newContent = BonsaiEnvironment.redactCredentials(newContent);
+            }
+
+            core.info(util.formatLineDiff(oldContent, newContent, relativePath));
+        }
+    }
+
+    private static readonly clearTextPasswordSelector = xpath.parse('//configuration/packageSourceCredentials/*/add[@key="ClearTextPassword"]');
+
+    // Log masking is not something we want to rely on for keeping credentials out of the dry run output
+    private static redactCredentials(nugetConfigContent: string): string {
+        const nugetConfig = util.parseXml(nugetConfigContent);
+        const passwordNodes = xpath.selectElements(BonsaiEnvironment.clearTextPasswordSelector, nugetConfig);
+        if (passwordNodes.length == 0) {
+            return nugetConfigContent;
+        }
+
+        for (const passwordNode of passwordNodes) {
+            passwordNode.setAttribute('value', '***');
+        }
+
+        return util.xmlToString(nugetConfig);
     }
 
     private static readonly packageSourcesSelector = xpath.parse('//configuration/packageSources');
@@ -72,7 +214,7 @@ export class BonsaiEnvironment {
         assert(fs.existsSync(this.nugetConfigPath), `'${nugetConfigPathRelative}' is expected to exist.`); // This will have been checked during the constructor
 
         modificationLog.logFileModificationIntent(this.nugetConfigPath);
-        const nugetConfigContent = fs.readFileSync(this.nugetConfigPath, 'utf8');
+        const nugetConfigContent = this.readConfig(this.nugetConfigPath);
         const nugetConfig = util.parseXml(nugetConfigContent);
 
         // Get the <packageSources> node
@@ -170,20 +312,40 @@ export class BonsaiEnvironment {
 
         // Write out the updated configuration
         const newConfig = util.xmlToString(nugetConfig);
-        fs.writeFileSync(this.nugetConfigPath, newConfig);
+        this.writeConfig(this.nugetConfigPath, newConfig);
 
         core.info('Final updated config:');
         core.info(newConfig.trim());
     }
 
-    private static async acquirePortableZip(version: SemVer): Promise<string> {
-        const zipFileName = `Bonsai.${version}.zip`;
-        const zipLocation = util.getCachedPath(zipFileName);
+    public get isCiBuild(): boolean {
+        return BonsaiEnvironment.isCiBuildVersion(this.bonsaiVersion);
+    }
+
+    private static isCiBuildVersion(version: SemVer): boolean {
+        const prereleaseStart = version.prerelease[0];
+        return typeof prereleaseStart === 'string' && !!prereleaseStart.match(/^ci\d+$/);
+    }
+
+    // The name of the file acquireBonsai saves to the action cache
+    public get bonsaiFileName(): string {
+        return BonsaiEnvironment.getBonsaiFileName(this.bonsaiVersion);
+    }
+
+    private static getBonsaiFileName(version: SemVer): string {
+        return BonsaiEnvironment.isCiBuildVersion(version) ? `Bonsai.${version}.nupkg` : `Bonsai.${version}.zip`;
+    }
+
+    // Returns the path to the portable zip for release builds or the path to the Bonsai package for CI builds
+    private static async acquireBonsai(version: SemVer): Promise<string> {
+        const isCiBuild = BonsaiEnvironment.isCiBuildVersion(version);
+        const fileName = BonsaiEnvironment.getBonsaiFileName(version);
+        const fileLocation = util.getCachedPath(fileName);
 
         // Bonsai has already been downloaded
-        if (fs.existsSync(zipLocation)) {
+        if (fs.existsSync(fileLocation)) {
             core.debug(`Using Bonsai ${version} from action cache.`);
-            return zipLocation;
+            return fileLocation;
         }
 
         // Check if it's already in the tool cache, otherwise we download a fresh copy
@@ -193,24 +355,256 @@ export class BonsaiEnvironment {
         if (cachedLocation) {
             console.info(`Using Bonsai ${version} from runner tool cache.`);
         } else {
-            const url = `https://github.com/bonsai-rx/bonsai/releases/download/${version}/Bonsai.zip`;
-            core.info(`Downloadig Bonsai ${version} from ${url}`);
-            const downloaded = await toolCache.downloadTool(url);
-            cachedLocation = await toolCache.cacheFile(downloaded, zipFileName, ...toolCacheKey);
-            fs.unlinkSync(downloaded);
+            const acquired = isCiBuild
+                ? await BonsaiEnvironment.acquireCiBuildPackageFromSources(version)
+                : await BonsaiEnvironment.acquirePortableZipFromSources(version);
+            cachedLocation = await toolCache.cacheFile(acquired.path, fileName, ...toolCacheKey);
+            if (acquired.isTemporary) {
+                fs.unlinkSync(acquired.path);
+            }
         }
 
         if (!cachedLocation) {
             throw Error(`Failed to locate or download Bonsai ${version}`);
         }
 
-        fs.copyFileSync(path.join(cachedLocation, zipFileName), zipLocation);
-        return zipLocation;
+        fs.copyFileSync(path.join(cachedLocation, fileName), fileLocation);
+        return fileLocation;
+    }
+
+    private static readonly configurationSelector = xpath.parse('//configuration');
+    private static readonly configurationIndentSelector = xpath.parse('//configuration/text()');
+    private static readonly packageSourceCredentialsSelector = xpath.parse('//configuration/packageSourceCredentials');
+
+    public addPackageSourceCredentials(credentials: NuGetPackageSourceCredential[]): PackageSourceCredentialsRecord {
+        const nugetConfigPathRelative = path.relative(process.cwd(), this.nugetConfigPath);
+        using _ = new util.ScopedGroup(`Adding package source credentials to '${nugetConfigPathRelative}'...`);
+
+        modificationLog.logFileModificationIntent(this.nugetConfigPath);
+        const nugetConfig = util.parseXml(this.readConfig(this.nugetConfigPath));
+
+        const configurationNode = xpath.select1Element(BonsaiEnvironment.configurationSelector, nugetConfig);
+        if (!configurationNode) {
+            throw new Error(`'${nugetConfigPathRelative}' does not contain a <configuration> element.`);
+        }
+
+        // Determine the indentation of each level based on the indentation of the children of <configuration>
+        const referenceIndentation = xpath.select1Text(BonsaiEnvironment.configurationIndentSelector, nugetConfig)?.nodeValue ?? '\n  ';
+        const indentUnit = referenceIndentation.replace(/^[\r\n]+/, '') || '  ';
+        const indent = (level: number) => nugetConfig.createTextNode(`\n${indentUnit.repeat(level)}`);
+
+        let credentialsNode = xpath.select1Element(BonsaiEnvironment.packageSourceCredentialsSelector, nugetConfig);
+        const createdSection = !credentialsNode;
+        if (!credentialsNode) {
+            credentialsNode = nugetConfig.createElement('packageSourceCredentials');
+            credentialsNode.appendChild(indent(1));
+
+            // The final child node is typically the whitespace for the end tag, so we want to be before it
+            let insertionPoint: XmlNode | null = configurationNode.lastChild;
+            if (insertionPoint?.nodeType != XmlNode.TEXT_NODE) {
+                insertionPoint = null;
+            }
+
+            configurationNode.insertBefore(credentialsNode, insertionPoint);
+            configurationNode.insertBefore(indent(1), credentialsNode);
+        }
+
+        let elementNames: string[] = [];
+        let replacedElements: { [elementName: string]: string[] } = {};
+        for (const credential of credentials) {
+            const elementName = util.encodeXmlName(credential.sourceName);
+            elementNames.push(elementName);
+
+            // Replace any existing credentials for the source, they're saved so that they can be restored during cleanup
+            const existingNodes = xpath.selectElements(elementName, credentialsNode);
+            if (existingNodes.length > 0) {
+                core.info(`Replacing existing credentials for package source '${credential.sourceName}'`);
+                replacedElements[elementName] = existingNodes.map(existing => util.xmlToString(existing));
+                for (const existing of existingNodes) {
+                    xpath.smartRemove(existing);
+                }
+            }
+
+            const sourceNode = nugetConfig.createElement(elementName);
+            for (const [key, value] of [['Username', credential.username], ['ClearTextPassword', credential.password]]) {
+                const addNode = nugetConfig.createElement('add');
+                addNode.setAttribute('key', key);
+                addNode.setAttribute('value', value);
+                sourceNode.appendChild(indent(3));
+                sourceNode.appendChild(addNode);
+            }
+            sourceNode.appendChild(indent(2));
+
+            credentialsNode.insertBefore(sourceNode, credentialsNode.lastChild);
+            credentialsNode.insertBefore(indent(2), sourceNode);
+            core.info(`Added credentials for package source '${credential.sourceName}'`);
+        }
+
+        // Unlike our other modifications we don't print the final config here since it contains secrets
+        this.writeConfig(this.nugetConfigPath, util.xmlToString(nugetConfig));
+
+        return {
+            nugetConfigPath: this.nugetConfigPath,
+            elementNames: elementNames,
+            createdSection: createdSection,
+            replacedElements: replacedElements,
+        };
+    }
+
+    public static removePackageSourceCredentials(record: PackageSourceCredentialsRecord): void {
+        const nugetConfigPathRelative = path.relative(process.cwd(), record.nugetConfigPath);
+        if (!fs.existsSync(record.nugetConfigPath)) {
+            core.warning(`Can't remove package source credentials from '${nugetConfigPathRelative}', it no longer exists.`);
+            return;
+        }
+
+        const nugetConfig = util.parseXml(fs.readFileSync(record.nugetConfigPath, 'utf8'));
+        const credentialsNode = xpath.select1Element(BonsaiEnvironment.packageSourceCredentialsSelector, nugetConfig);
+        if (!credentialsNode) {
+            core.warning(`Can't remove package source credentials from '${nugetConfigPathRelative}', the <packageSourceCredentials> element is missing.`);
+            return;
+        }
+
+        for (const elementName of record.elementNames) {
+            const replaced = record.replacedElements[elementName] ?? [];
+            for (const sourceNode of xpath.selectElements(elementName, credentialsNode)) {
+                // Put back whatever credentials we replaced in place of our own, reusing our indentation between them
+                const indentation = sourceNode.previousSibling?.nodeType == XmlNode.TEXT_NODE ? sourceNode.previousSibling : null;
+                for (let i = 0; i < replaced.length; i++) {
+                    if (i > 0 && indentation) {
+                        credentialsNode.insertBefore(indentation.cloneNode(false), sourceNode);
+                    }
+
+                    const restoredNode = nugetConfig.importNode(util.parseXml(replaced[i]).documentElement!, true);
+                    credentialsNode.insertBefore(restoredNode, sourceNode);
+                }
+
+                if (replaced.length > 0) {
+                    credentialsNode.removeChild(sourceNode);
+                } else {
+                    xpath.smartRemove(sourceNode);
+                }
+            }
+        }
+
+        if (record.createdSection) {
+            xpath.smartRemove(credentialsNode);
+        }
+
+        fs.writeFileSync(record.nugetConfigPath, util.xmlToString(nugetConfig));
+        core.info(`Removed package source credentials from '${nugetConfigPathRelative}'`);
+    }
+
+    private static async acquirePortableZipFromSources(version: SemVer): Promise<{ path: string, isTemporary: boolean }> {
+        const sources = util.inputs.bonsaiSources;
+        if (sources.length == 0) {
+            throw Error("No sources were specified for acquiring Bonsai.");
+        }
+
+        // Sources are tried in the order they were specified, the first one which works wins
+        for (const sourceTemplate of sources) {
+            const source = sourceTemplate.replaceAll('{version}', version.toString());
+
+            if (source.match(/^https?:\/\//i)) {
+                try {
+                    core.info(`Downloading Bonsai ${version} from ${source}`);
+                    const downloaded = await toolCache.downloadTool(source);
+                    core.info(`Using Bonsai ${version} downloaded from '${source}'`);
+                    return { path: downloaded, isTemporary: true };
+                } catch (error) {
+                    core.warning(`Failed to download Bonsai ${version} from '${source}': ${error}`);
+                    continue;
+                }
+            }
+
+            // Anything that isn't a URL is a local path, either to the zip itself or to a directory containing it
+            let localPath = path.resolve(source);
+            if (fs.existsSync(localPath) && fs.statSync(localPath).isDirectory()) {
+                localPath = path.join(localPath, `Bonsai.${version}.zip`);
+            }
+
+            if (!fs.existsSync(localPath)) {
+                core.info(`Bonsai ${version} is not available from '${source}'`);
+                continue;
+            }
+
+            core.info(`Using Bonsai ${version} from '${path.relative(process.cwd(), localPath)}'`);
+            return { path: localPath, isTemporary: false };
+        }
+
+        throw Error(`Failed to acquire Bonsai ${version} from any of the specified sources:\n${sources.join('\n')}`);
+    }
+
+    private static async acquireCiBuildPackageFromSources(version: SemVer): Promise<{ path: string, isTemporary: boolean }> {
+        const sources = util.inputs.bonsaiCiSources;
+        if (sources.length == 0) {
+            throw Error(`Bonsai ${version} appears to be an unstable CI build of Bonsai, the bonsai-ci-sources input must be specified in order to acquire it.`);
+        }
+
+        // Sources are tried in the order they were specified, the first one which works wins
+        const packageFileName = `Bonsai.${version}.nupkg`;
+        for (const source of sources) {
+            if (source.match(/^https?:\/\//i)) {
+                try {
+                    const packageUrl = await getPackageDownloadUrl(source, 'Bonsai', version);
+                    core.info(`Downloading Bonsai ${version} from ${packageUrl}`);
+                    const downloaded = await toolCache.downloadTool(packageUrl);
+                    core.info(`Using Bonsai ${version} downloaded from feed '${source}'`);
+                    return { path: downloaded, isTemporary: true };
+                } catch (error) {
+                    core.warning(`Failed to download Bonsai ${version} from feed '${source}': ${error}`);
+                    continue;
+                }
+            }
+
+            // Anything that isn't a URL is a local directory of build artifacts
+            const localPath = path.join(path.resolve(source), packageFileName);
+            if (!fs.existsSync(localPath)) {
+                core.info(`Bonsai ${version} is not available from '${source}'`);
+                continue;
+            }
+
+            core.info(`Using Bonsai ${version} from '${path.relative(process.cwd(), localPath)}'`);
+            return { path: localPath, isTemporary: false };
+        }
+
+        throw Error(`Failed to acquire Bonsai ${version} from any of the specified CI build sources:\n${sources.join('\n')}`);
+    }
+
+    // Creates an in-memory archive matching the layout of the portable zip from the contents of the Bonsai package
+    private static createPortableLayoutFromPackage(packagePath: string): AdmZip {
+        const nupkg = new AdmZip(packagePath);
+
+        // Rather than hard-coding where Bonsai.exe lives within the package we just look for it
+        const bonsaiExe = nupkg.getEntries()
+            .filter(e => !e.isDirectory && path.posix.basename(e.entryName) == 'Bonsai.exe')
+            .sort((a, b) => a.entryName.length - b.entryName.length)[0];
+
+        if (!bonsaiExe) {
+            throw Error(`Bonsai package '${path.basename(packagePath)}' does not contain Bonsai.exe`);
+        }
+
+        const bonsaiRoot = path.posix.dirname(bonsaiExe.entryName);
+        const entryPrefix = bonsaiRoot == '.' ? '' : `${bonsaiRoot}/`;
+        core.debug(`Using '${entryPrefix}' from '${path.basename(packagePath)}' as the portable Bonsai layout.`);
+
+        const result = new AdmZip();
+        for (const entry of nupkg.getEntries()) {
+            if (!entry.isDirectory && entry.entryName.startsWith(entryPrefix)) {
+                result.addFile(entry.entryName.substring(entryPrefix.length), entry.getData());
+            }
+        }
+
+        return result;
     }
 
     public async installBonsai(): Promise<void> {
-        const zipPath = await BonsaiEnvironment.acquirePortableZip(this.bonsaiVersion);
-        const zip = new AdmZip(zipPath);
+        const bonsaiPath = await BonsaiEnvironment.acquireBonsai(this.bonsaiVersion);
+        await this.verifyChecksum(bonsaiPath);
+
+        // CI builds of Bonsai come from the Bonsai package rather than a portable zip, but we lay them out the same way
+        const zip = this.isCiBuild ? BonsaiEnvironment.createPortableLayoutFromPackage(bonsaiPath) : new AdmZip(bonsaiPath);
+        this.verifyPortableZipVersion(zip);
 
         // We could just extract Bonsai.exe, but we extract everything except for Bonsai32.exe and NuGet.config to better match the logic used in Setup.ps1
         // (This does not actually remove anything from the original zip, it just manipulates the in-memory file entry table.)
@@ -227,34 +621,100 @@ export class BonsaiEnvironment {
         core.info(`Bonsai ${this.bonsaiVersion} installed to '${this.relativePath}'`);
     }
 
-    public async bootstrap(forceDependencyWalk?: boolean): Promise<boolean> {
-        if (forceDependencyWalk) {
-            return this.bootstrapWithForcedDependencyWalk();
+    // Parses checksum lines in the form `version=sha256`, returning the checksum for the environment's Bonsai version (if any)
+    // Pins for other versions are ignored so that they don't interfere when the version is overridden
+    private getPinnedChecksumForVersion(lines: string[], origin: string): string | null {
+        let result: string | null = null;
+        for (const line of lines) {
+            const separatorIndex = line.indexOf('=');
+            if (separatorIndex < 0) {
+                throw Error(`Bonsai checksum '${line}' from ${origin} is invalid, expected the form 'version=sha256'.`);
+            }
+
+            const version = semver.parse(line.substring(0, separatorIndex).trim());
+            if (!version) {
+                throw Error(`Bonsai checksum '${line}' from ${origin} specifies an invalid version.`);
+            }
+
+            if (semver.eq(version, this.bonsaiVersion)) {
+                result = line.substring(separatorIndex + 1).trim();
+            }
         }
 
-        let command = './Bonsai.exe';
-        let args = ['--no-editor'];
+        return result;
+    }
+
+    private getPinnedChecksums(): Map<string, string> {
+        // Checksums can be pinned either via the checksum file next to Bonsai.config or via the action inputs
+        const result = new Map<string, string>();
 
-        if (process.platform != 'win32') {
-            args.unshift(command);
-            command = 'mono';
+        if (fs.existsSync(this.checksumFilePath)) {
+            const relativeChecksumFilePath = path.relative(process.cwd(), this.checksumFilePath);
+            const lines = fs.readFileSync(this.checksumFilePath, 'utf8').split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0 && !l.startsWith('#'));
+            const checksum = this.getPinnedChecksumForVersion(lines, `'${relativeChecksumFilePath}'`);
+            if (checksum) {
+                result.set(relativeChecksumFilePath, checksum);
+            }
         }
 
-        let errorCode: number;
-        {
-            using _ = new util.ScopedGroup(`Bootstrapping Bonsai environment '${this.relativePath}'...`);
-            core.debug(`Running command '${command} ${args.join(' ')}' in '${this.rootPath}'`);
-            errorCode = await exec.exec(command, args, {
-                cwd: this.rootPath,
-                ignoreReturnCode: true,
-            });
+        const inputChecksum = this.getPinnedChecksumForVersion(util.inputs.bonsaiChecksums, 'bonsai-checksums input');
+        if (inputChecksum) {
+            result.set('bonsai-checksums input', inputChecksum);
+        }
+
+        for (const [origin, checksum] of result) {
+            if (!checksum.match(/^[0-9A-Fa-f]{64}$/)) {
+                throw Error(`Checksum '${checksum}' from ${origin} is not a valid SHA-256 hash.`);
+            }
+        }
+
+        return result;
+    }
+
+    private async verifyChecksum(filePath: string): Promise<void> {
+        const pinnedChecksums = this.getPinnedChecksums();
+        if (pinnedChecksums.size == 0) {
+            core.debug(`No checksum is pinned for Bonsai ${this.bonsaiVersion} in '${this.relativePath}', skipping verification.`);
+            return;
         }
 
-        if (errorCode !== 0) {
-            core.error(`Failed to bootstrap '${this.relativePath}', Bonsai exited with error ${errorCode}.`);
+        const actualChecksum = await util.hashFile(filePath);
+        for (const [origin, checksum] of pinnedChecksums) {
+            if (actualChecksum.toLowerCase() != checksum.toLowerCase()) {
+                throw Error(`Bonsai ${this.bonsaiVersion} has checksum ${actualChecksum}, which does not match the checksum ${checksum} pinned by ${origin}!`);
+            }
         }
 
-        return errorCode === 0;
+        core.info(`Verified checksum of Bonsai ${this.bonsaiVersion}: ${actualChecksum}`);
+    }
+
+    private verifyPortableZipVersion(zip: AdmZip): void {
+        const bonsaiExe = zip.getEntry('Bonsai.exe');
+        if (!bonsaiExe) {
+            throw Error(`The archive for Bonsai ${this.bonsaiVersion} does not contain Bonsai.exe`);
+        }
+
+        const productVersionText = util.getExecutableProductVersion(bonsaiExe.getData());
+        if (!productVersionText) {
+            core.warning(`Could not determine the version of Bonsai.exe for Bonsai ${this.bonsaiVersion}, it was not verified.`);
+            return;
+        }
+
+        // The product version might be a legacy four-part version, and it may have build metadata (which semver ignores for equality.)
+        const productVersion = parseNuGetVersion(productVersionText);
+        if (!productVersion || !isSemVer(productVersion) || !semver.eq(productVersion, this.bonsaiVersion)) {
+            throw Error(`Bonsai.exe reports version '${productVersionText}', which does not match the desired Bonsai version ${this.bonsaiVersion}!`);
+        }
+
+        core.debug(`Bonsai.exe reports version '${productVersionText}'`);
+    }
+
+    public async bootstrap(forceDependencyWalk?: boolean): Promise<boolean> {
+        if (forceDependencyWalk) {
+            return this.bootstrapWithForcedDependencyWalk();
+        }
+
+        return await this.runBootstrapCommand(`Bootstrapping Bonsai environment '${this.relativePath}'`, this.bonsaiExePath, ['--no-editor']);
     }
 
     private async bootstrapWithForcedDependencyWalk(): Promise<boolean> {
@@ -263,32 +723,132 @@ export class BonsaiEnvironment {
             return false;
         }
 
-        let command = path.join(__dirname, 'BonsaiPackageInstallHelper.exe');
-        let args = [path.join(this.rootPath, 'Bonsai.exe')];
+        return await this.runBootstrapCommand(
+            `Bootstrapping Bonsai environment '${this.relativePath}' with forced dependency walk`,
+            path.join(__dirname, 'BonsaiPackageInstallHelper.exe'),
+            [this.bonsaiExePath]
+        );
+    }
+
+    private static readonly bootstrapRetryBaseDelaySeconds = 10;
+
+    // Runs a bootstrap command, retrying with exponential backoff when it fails due to what appear to be transient network or package feed errors
+    private async runBootstrapCommand(groupTitle: string, executablePath: string, args: string[]): Promise<boolean> {
+        const attempts = util.inputs.bootstrapRetries + 1;
+        for (let attempt = 1; ; attempt++) {
+            const attemptTitle = attempts > 1 ? `${groupTitle} (attempt ${attempt} of ${attempts})...` : `${groupTitle}...`;
+            const result = await this.runCommand(attemptTitle, executablePath, args);
+            if (result.exitCode === 0) {
+                return true;
+            }
 
-        if (process.platform != 'win32') {
-            args.unshift(command);
-            command = 'mono';
+            const diagnostics = parseBootstrapOutput(result.output);
+            if (!isTransientFailure(diagnostics) || attempt >= attempts) {
+                this.reportBootstrapDiagnostics(diagnostics);
+                core.error(`Failed to bootstrap '${this.relativePath}'${attempt > 1 ? ` after ${attempt} attempts` : ''}, Bonsai exited with error ${result.exitCode}.`);
+                return false;
+            }
+
+            const delaySeconds = BonsaiEnvironment.bootstrapRetryBaseDelaySeconds * 2 ** (attempt - 1);
+            core.warning(
+                `Bootstrapping '${this.relativePath}' failed with error ${result.exitCode} due to what appears to be a transient error, retrying in ${delaySeconds} seconds.\n`
+                + diagnostics.map(d => d.message).join('\n')
+            );
+            await new Promise(resolve => setTimeout(resolve, delaySeconds * 1000));
         }
+    }
 
-        let errorCode: number;
-        {
-            using _ = new util.ScopedGroup(`Bootstrapping Bonsai environment '${this.relativePath}' with forced dependency walk...`);
-            core.debug(`Running command '${command} ${args.join(' ')}' in '${this.rootPath}'`);
-            errorCode = await exec.exec(command, args, {
-                cwd: this.rootPath,
-                ignoreReturnCode: true,
-            });
+    // Reports the errors found in Bonsai's output as annotations on the relevant part of Bonsai.config so they aren't buried in the log
+    private reportBootstrapDiagnostics(diagnostics: BootstrapDiagnostic[]): void {
+        const relativeBonsaiConfigPath = path.relative(process.cwd(), this.bonsaiConfigPath);
+        const bonsaiConfig = util.parseXml(this.readConfig(this.bonsaiConfigPath));
+
+        const reported = new Set<string>();
+        for (const diagnostic of diagnostics) {
+            if (diagnostic.kind != BootstrapErrorKind.Resolution || reported.has(diagnostic.message)) {
+                continue;
+            }
+            reported.add(diagnostic.message);
+
+            // Errors relating to dependencies which aren't listed in Bonsai.config are reported on the file as a whole
+            // Package IDs and assembly names are case-insensitive, and Bonsai's output doesn't necessarily use the same casing as Bonsai.config
+            let element: XmlElement | undefined = undefined;
+            if (diagnostic.packageId) {
+                const packageId = diagnostic.packageId.toLowerCase();
+                element = xpath.selectElements(BonsaiEnvironment.allPackagesSelector, bonsaiConfig).find(e => e.getAttribute('id')?.toLowerCase() == packageId);
+            } else if (diagnostic.assemblyName) {
+                const assemblyName = diagnostic.assemblyName.toLowerCase();
+                element = xpath.selectElements(BonsaiEnvironment.assemblyLocationsSelector, bonsaiConfig).find(e => e.getAttribute('assemblyName')?.toLowerCase() == assemblyName);
+            }
+
+            core.error(diagnostic.message, { title: `Failed to bootstrap '${this.relativePath}'`, file: relativeBonsaiConfigPath, startLine: element?.lineNumber });
+        }
+    }
+
+    // Runs a workflow headlessly using this environment, properties are specified in the form `name=value`
+    public async runWorkflow(workflowPath: string, properties: string[], timeoutSeconds: number): Promise<WorkflowResult> {
+        const relativeWorkflowPath = path.relative(process.cwd(), workflowPath);
+
+        let args = [workflowPath, '--no-editor', '--start'];
+        for (const property of properties) {
+            args.push(`--property:${property}`);
         }
 
-        if (errorCode !== 0) {
-            core.error(`Failed to bootstrap '${this.relativePath}', Bonsai exited with error ${errorCode}.`);
+        const startTime = performance.now();
+        const result = await this.runCommand(
+            `Running workflow '${relativeWorkflowPath}' using '${this.relativePath}'...`,
+            this.bonsaiExePath,
+            args,
+            { cwd: path.dirname(workflowPath), timeoutSeconds: timeoutSeconds }
+        );
+        const duration = (performance.now() - startTime) / 1000;
+
+        let status: WorkflowStatus;
+        if (result.timedOut) {
+            core.error(`Workflow '${relativeWorkflowPath}' did not complete within ${timeoutSeconds} seconds.`, { file: relativeWorkflowPath });
+            status = 'timed-out';
+        } else if (result.exitCode !== 0) {
+            core.error(`Workflow '${relativeWorkflowPath}' failed, Bonsai exited with error ${result.exitCode}.`, { file: relativeWorkflowPath });
+            status = 'failed';
+        } else {
+            core.info(`Workflow '${relativeWorkflowPath}' completed successfully in ${duration.toFixed(1)} seconds.`);
+            status = 'passed';
         }
 
-        return errorCode === 0;
+        return {
+            workflow: relativeWorkflowPath,
+            environment: this.relativePath,
+            status: status,
+            exitCode: result.exitCode,
+            duration: Math.round(duration * 10) / 10,
+        };
+    }
+
+    // Runs a .NET Framework executable using the configured launcher
+    private async runCommand(groupTitle: string, executablePath: string, executableArgs: string[], options?: { cwd?: string, timeoutSeconds?: number }): Promise<CommandResult> {
+        const { command, args } = launcher.getCommand(executablePath, executableArgs);
+        const cwd = options?.cwd ?? this.rootPath;
+        const timeoutSeconds = options?.timeoutSeconds ?? 0;
+        core.debug(`Running command '${command} ${args.join(' ')}' in '${cwd}'`);
+
+        // When only one command runs at a time we can simply stream the output as it's produced
+        if (util.inputs.maxParallel <= 1) {
+            using _ = new util.ScopedGroup(groupTitle);
+            core.info(`[command]${command} ${args.join(' ')}`);
+            return await spawnCommand(command, args, cwd, timeoutSeconds, true);
+        }
+
+        // Otherwise the output of concurrent commands would be interleaved (and GitHub doesn't support concurrent groups), so we buffer it until the command completes
+        const result = await spawnCommand(command, args, cwd, timeoutSeconds, false);
+
+        using _ = new util.ScopedGroup(groupTitle);
+        core.info(`[command]${command} ${args.join(' ')}`);
+        core.info(result.output.trimEnd());
+        return result;
     }
 
-    public async capturePackages(destinationPath: string): Promise<void> {
+    // Returns the paths of the .nupkg files for every package currently installed in the environment's Packages folder
+    public async getInstalledPackagePaths(): Promise<string[]> {
         const packagePaths = await glob.create(
             path.join(util.globEscape(this.packagesPath), '**', '*.nupkg'),
             {
@@ -297,14 +857,80 @@ export class BonsaiEnvironment {
             }
         );
 
+        return await packagePaths.glob();
+    }
+
+    public async getInstalledPackages(): Promise<LocalNuGetPackage[]> {
+        return (await this.getInstalledPackagePaths()).map(p => new LocalNuGetPackage(p));
+    }
+
+    // The lock file records the exact packages which were restored into the environment so that changes in what the feeds provide can be detected
+    // Injected packages are excluded since they're expected to change from run to run
+    private async createLockFileContent(excludedPackageIds: Set<string>): Promise<string> {
+        const installedPackages = (await this.getInstalledPackages())
+            .filter(p => !excludedPackageIds.has(p.id.toLowerCase()))
+            .sort((a, b) => util.stringCompare(a.id.toLowerCase(), b.id.toLowerCase()) || compareNuGetVersions(a.version, b.version));
+
+        let packages = [];
+        for (const installedPackage of installedPackages) {
+            packages.push({
+                id: installedPackage.id,
+                version: installedPackage.version.toString(),
+                sha256: await util.hashFile(installedPackage.path),
+            });
+        }
+
+        return JSON.stringify({ version: 1, packages: packages }, null, 2) + '\n';
+    }
+
+    public async writeLockFile(excludedPackageIds: Set<string>): Promise<void> {
+        const relativeLockFilePath = path.relative(process.cwd(), this.lockFilePath);
+        const content = await this.createLockFileContent(excludedPackageIds);
+
+        if (fs.existsSync(this.lockFilePath)) {
+            modificationLog.logFileModificationIntent(this.lockFilePath);
+        }
+
+        fs.writeFileSync(this.lockFilePath, content);
+        core.info(`Wrote '${relativeLockFilePath}'`);
+    }
+
+    // Returns true if the restored packages match the committed lock file
+    public async verifyLockFile(excludedPackageIds: Set<string>): Promise<boolean> {
+        const relativeLockFilePath = path.relative(process.cwd(), this.lockFilePath);
+        if (!fs.existsSync(this.lockFilePath)) {
+            core.error(`'${relativeLockFilePath}' is missing, it must be committed when locked mode is enabled.`);
+            return false;
+        }
+
+        const expected = fs.readFileSync(this.lockFilePath, 'utf8');
+        const actual = await this.createLockFileContent(excludedPackageIds);
+        if (expected.replaceAll('\r\n', '\n') == actual) {
+            core.info(`'${this.relativePath}' matches '${relativeLockFilePath}'`);
+            return true;
+        }
+
+        core.error(
+            `The packages restored into '${this.relativePath}' do not match its lock file:\n${util.formatLineDiff(expected, actual, relativeLockFilePath)}`,
+            { file: relativeLockFilePath }
+        );
+        return false;
+    }
+
+    public async capturePackages(destinationPath: string, excludedPackages: LocalNuGetPackage[]): Promise<void> {
+        const packagePaths = await this.getInstalledPackagePaths();
+        const excludedFileNames = new Set(excludedPackages.map(p => `${p.id}.${p.version}.nupkg`.toLowerCase()));
+
         using _ = new util.ScopedGroup(`Collecting restored packages from '${this.relativePath}' into the local package cache...`);
         let total = 0;
         let captured = 0;
-        for await (const packagePath of packagePaths.globGenerator()) {
+        for (const packagePath of packagePaths) {
             const relativePackagePath = path.relative(process.cwd(), packagePath);
             const cachedPath = path.join(destinationPath, path.basename(packagePath));
             total++;
-            if (fs.existsSync(cachedPath)) {
+            if (excludedFileNames.has(path.basename(packagePath).toLowerCase())) {
+                core.info(`Not capturing '${relativePackagePath}', package was injected.`);
+            } else if (fs.existsSync(cachedPath)) {
                 core.debug(`Not capturing '${relativePackagePath}', package is already in cache.`);
 
                 // Make sure the cached package and the actual package are truely identical
@@ -326,6 +952,207 @@ export class BonsaiEnvironment {
         core.info(`Captured ${captured}/${total} packages`);
     }
 
+    private static readonly allPackagesSelector = xpath.parse('//PackageConfiguration/Packages/Package');
+
+    public getConfiguredPackageCount(): number {
+        return xpath.selectElements(BonsaiEnvironment.allPackagesSelector, util.parseXml(this.readConfig(this.bonsaiConfigPath))).length;
+    }
+
+    private static readonly assemblyReferencesSelector = xpath.parse('//PackageConfiguration/AssemblyReferences/AssemblyReference');
+    private static readonly assemblyLocationsSelector = xpath.parse('//PackageConfiguration/AssemblyLocations/AssemblyLocation');
+    private static readonly libraryFoldersSelector = xpath.parse('//PackageConfiguration/LibraryFolders/LibraryFolder');
+
+    // Assemblies which are always available regardless of what the environment declares
+    private static isFrameworkAssembly(assemblyName: string): boolean {
+        const lowerName = assemblyName.toLowerCase();
+        return lowerName == 'mscorlib' || lowerName == 'netstandard' || lowerName == 'system' || lowerName.startsWith('system.');
+    }
+
+    // Checks that every assembly referenced by a workflow's XML namespace declarations (IE: `clr-namespace:Namespace;assembly=Assembly`) is available in this environment
+    // Returns false and reports an error for each assembly which is missing
+    public checkWorkflowAssemblies(workflowPath: string): boolean {
+        const relativeWorkflowPath = path.relative(process.cwd(), workflowPath);
+        const bonsaiConfig = util.parseXml(this.readConfig(this.bonsaiConfigPath));
+
+        // Bonsai compiles the C# scripting extensions in the environment's Extensions folder into an assembly named Extensions
+        const availableAssemblies = new Set<string>(['extensions']);
+        for (const element of xpath.selectElements(BonsaiEnvironment.assemblyReferencesSelector, bonsaiConfig)) {
+            availableAssemblies.add(element.getAttribute('assemblyName')?.toLowerCase() ?? '');
+        }
+        for (const element of xpath.selectElements(BonsaiEnvironment.assemblyLocationsSelector, bonsaiConfig)) {
+            availableAssemblies.add(element.getAttribute('assemblyName')?.toLowerCase() ?? '');
+        }
+
+        const workflow = util.parseXml(fs.readFileSync(workflowPath, 'utf8'));
+        let allAvailable = true;
+        const reported = new Set<string>();
+        for (const element of xpath.selectElements('//*', workflow)) {
+            for (let i = 0; i < element.attributes.length; i++) {
+                const attribute = element.attributes.item(i)!;
+                if (attribute.name != 'xmlns' && !attribute.name.startsWith('xmlns:')) {
+                    continue;
+                }
+
+                const match = attribute.value.match(/^clr-namespace:[^;]*;assembly=(?<assembly>.+)$/);
+                if (!match) {
+                    continue;
+                }
+
+                const assemblyName = match.groups!.assembly.trim();
+                if (BonsaiEnvironment.isFrameworkAssembly(assemblyName) || availableAssemblies.has(assemblyName.toLowerCase()) || reported.has(assemblyName.toLowerCase())) {
+                    continue;
+                }
+
+                core.error(
+                    `Workflow references assembly '${assemblyName}' which is not listed in the assembly references or assembly locations of '${this.relativePath}'.`,
+                    { file: relativeWorkflowPath, startLine: attribute.lineNumber ?? element.lineNumber }
+                );
+                reported.add(assemblyName.toLowerCase());
+                allAvailable = false;
+            }
+        }
+
+        return allAvailable;
+    }
+
+    // Checks Bonsai.config for inconsistencies which Bonsai would otherwise silently ignore or fail on in confusing ways
+    // Returns false if any errors were found, problems which are suspicious but not fatal are reported as warnings
+    // Errors are only reported as such when strict-config-validation is enabled, otherwise they're downgraded to warnings to avoid breaking existing configs
+    public validateConfig(): boolean {
+        const relativeBonsaiConfigPath = path.relative(process.cwd(), this.bonsaiConfigPath);
+        const bonsaiConfig = util.parseXml(this.readConfig(this.bonsaiConfigPath));
+        let hadErrors = false;
+
+        const report = (isError: boolean, message: string, node: XmlNode) => {
+            const properties: core.AnnotationProperties = { file: relativeBonsaiConfigPath, startLine: node.lineNumber };
+            if (isError && util.inputs.strictConfigValidation) {
+                core.error(message, properties);
+                hadErrors = true;
+            } else {
+                core.warning(message, properties);
+            }
+        };
+
+        // Packages must be listed once with a valid version
+        // The IDs of package folders are used for checking the locations below, these match the folder names Bonsai uses for packages it installs
+        const packageIds = new Set<string>();
+        const packageFolderNames = new Set<string>();
+        for (const packageElement of xpath.selectElements(BonsaiEnvironment.allPackagesSelector, bonsaiConfig)) {
+            const id = packageElement.getAttribute('id');
+            const version = packageElement.getAttribute('version');
+
+            if (!id) {
+                report(true, "Package entry is missing its ID.", packageElement);
+                continue;
+            }
+
+            if (packageIds.has(id.toLowerCase())) {
+                report(true, `Package '${id}' is listed more than once.`, packageElement);
+            }
+            packageIds.add(id.toLowerCase());
+
+            if (!version || !parseNuGetVersion(version)) {
+                report(true, `Package '${id}' has an invalid version '${version ?? ''}'.`, packageElement);
+                continue;
+            }
+            packageFolderNames.add(`${id}.${version}`.toLowerCase());
+        }
+
+        // Assembly locations and library folders must point into a listed package
+        const checkLocation = (location: string | null, node: XmlNode, description: string) => {
+            if (!location) {
+                report(true, `${description} is missing its path.`, node);
+                return;
+            }
+
+            // Locations outside of the Packages folder (IE: absolute paths used during development) are not validated
+            const parts = location.split(/[\\/]/);
+            if (parts.length < 2 || parts[0].toLowerCase() != 'packages') {
+                return;
+            }
+
+            if (!packageFolderNames.has(parts[1].toLowerCase())) {
+                report(true, `${description} refers to package '${parts[1]}' which is not listed in the Packages section: ${location}`, node);
+            }
+        };
+
+        const locatedAssemblyNames = new Set<string>();
+        for (const assemblyLocation of xpath.selectElements(BonsaiEnvironment.assemblyLocationsSelector, bonsaiConfig)) {
+            const assemblyName = assemblyLocation.getAttribute('assemblyName') ?? '';
+            locatedAssemblyNames.add(assemblyName.toLowerCase());
+            checkLocation(assemblyLocation.getAttribute('location'), assemblyLocation, `Assembly location for '${assemblyName}'`);
+        }
+
+        for (const libraryFolder of xpath.selectElements(BonsaiEnvironment.libraryFoldersSelector, bonsaiConfig)) {
+            checkLocation(libraryFolder.getAttribute('path'), libraryFolder, "Library folder");
+        }
+
+        // Assembly references are only meaningful when Bonsai knows where to find the assembly
+        for (const assemblyReference of xpath.selectElements(BonsaiEnvironment.assemblyReferencesSelector, bonsaiConfig)) {
+            const assemblyName = assemblyReference.getAttribute('assemblyName') ?? '';
+            if (!locatedAssemblyNames.has(assemblyName.toLowerCase())) {
+                report(false, `Assembly reference '${assemblyName}' does not have a corresponding assembly location.`, assemblyReference);
+            }
+        }
+
+        return !hadErrors;
+    }
+
+    // Snapshot of Bonsai.config taken before bootstrapping, used to detect when Bonsai rewrites it in frozen mode
+    private configSnapshot: string | null = null;
+
+    public snapshotConfig(): void {
+        this.configSnapshot = fs.readFileSync(this.bonsaiConfigPath, 'utf8');
+    }
+
+    // Describes the meaningful parts of Bonsai.config one entry per line so that differences in formatting or ordering are ignored
+    // Entries relating to injected packages are skipped since they're expected to change
+    private static describeConfig(bonsaiConfigContent: string, excludedPackageIds: Set<string>): string {
+        const bonsaiConfig = util.parseXml(bonsaiConfigContent);
+        const isExcludedLocation = (location: string) => {
+            const parts = location.split(/[\\/]/);
+            if (parts.length < 2 || parts[0].toLowerCase() != 'packages') {
+                return false;
+            }
+
+            // Package folders are named '{id}.{version}', so the remainder must be a version or we'd also exclude packages whose IDs merely start with an excluded ID
+            const folderName = parts[1].toLowerCase();
+            return [...excludedPackageIds].some(id => folderName.startsWith(`${id}.`) && parseNuGetVersion(folderName.substring(id.length + 1)) !== null);
+        };
+
+        const packages = xpath.selectElements(BonsaiEnvironment.allPackagesSelector, bonsaiConfig)
+            .filter(e => !excludedPackageIds.has(e.getAttribute('id')?.toLowerCase() ?? ''))
+            .map(e => `Package ${e.getAttribute('id')} ${e.getAttribute('version')}`);
+
+        const assemblyLocations = xpath.selectElements(BonsaiEnvironment.assemblyLocationsSelector, bonsaiConfig)
+            .filter(e => !isExcludedLocation(e.getAttribute('location') ?? ''))
+            .map(e => `AssemblyLocation ${e.getAttribute('assemblyName')} ${e.getAttribute('processorArchitecture')} ${e.getAttribute('location')}`);
+
+        const libraryFolders = xpath.selectElements(BonsaiEnvironment.libraryFoldersSelector, bonsaiConfig)
+            .filter(e => !isExcludedLocation(e.getAttribute('path') ?? ''))
+            .map(e => `LibraryFolder ${e.getAttribute('platform')} ${e.getAttribute('path')}`);
+
+        return [...packages.sort(), ...assemblyLocations.sort(), ...libraryFolders.sort()].join('\n') + '\n';
+    }
+
+    // Returns false if Bonsai added or changed any packages, assembly locations, or library folders since the snapshot was taken
+    public verifyConfigUnchanged(excludedPackageIds: Set<string>): boolean {
+        assert(this.configSnapshot !== null, "The configuration must be snapshotted before it can be verified.");
+        const relativeBonsaiConfigPath = path.relative(process.cwd(), this.bonsaiConfigPath);
+        const before = BonsaiEnvironment.describeConfig(this.configSnapshot, excludedPackageIds);
+        const after = BonsaiEnvironment.describeConfig(fs.readFileSync(this.bonsaiConfigPath, 'utf8'), excludedPackageIds);
+
+        if (before == after) {
+            return true;
+        }
+
+        core.error(
+            `Bonsai modified '${relativeBonsaiConfigPath}' while bootstrapping, make sure the bootstrapped version is committed:\n${util.formatLineDiff(before, after, relativeBonsaiConfigPath)}`,
+            { file: relativeBonsaiConfigPath }
+        );
+        return false;
+    }
+
     private static readonly packageSelector = xpath.parse('//PackageConfiguration/Packages/Package[@id=$packageId]');
     private static readonly bonsaiConfigPackagesSelector = xpath.parse('//PackageConfiguration/Packages');
     private static readonly bonsaiConfigPackagesIndentSelector = xpath.parse('//PackageConfiguration/Packages/text()');
@@ -339,13 +1166,169 @@ export class BonsaiEnvironment {
         '//PackageConfiguration/AssemblyReferences/AssemblyReference[@assemblyName=$assemblyName]'
     );
 
+    // Selects which version of each injected package this environment should receive
+    // When multiple versions of a package are available, the one matching Bonsai.config wins, otherwise the highest version is used.
+    public selectInjectedPackages(nugetPackages: LocalNuGetPackage[]): LocalNuGetPackage[] {
+        const candidatesById = new Map<string, LocalNuGetPackage[]>();
+        for (const nugetPackage of nugetPackages) {
+            const id = nugetPackage.id.toUpperCase();
+            const candidates = candidatesById.get(id);
+            if (candidates) {
+                candidates.push(nugetPackage);
+            } else {
+                candidatesById.set(id, [nugetPackage]);
+            }
+        }
+
+        const bonsaiConfig = util.parseXml(this.readConfig(this.bonsaiConfigPath));
+        let result: LocalNuGetPackage[] = [];
+        for (const candidates of candidatesById.values()) {
+            if (candidates.length == 1) {
+                result.push(candidates[0]);
+                continue;
+            }
+
+            const id = candidates[0].id;
+            const configVersionText = xpath.select1Attribute(BonsaiEnvironment.packageVersionSelector, bonsaiConfig, { variables: { packageId: id } })?.nodeValue;
+            const configVersion = configVersionText ? parseNuGetVersion(configVersionText) : null;
+
+            let selected = configVersion ? candidates.find(c => compareNuGetVersions(c.version, configVersion) == 0) : undefined;
+            if (selected) {
+                core.info(`Selected ${id} version ${selected.version} for '${this.relativePath}' to match its Bonsai.config`);
+            } else {
+                selected = candidates.reduce((a, b) => compareNuGetVersions(a.version, b.version) >= 0 ? a : b);
+                core.info(`Selected ${id} version ${selected.version} for '${this.relativePath}' as the highest available version`);
+            }
+
+            result.push(selected);
+        }
+
+        return result;
+    }
+
+    // Replaces a <Package> node in Bonsai.config and cleans up everything associated with the package it referred to
+    // (IE: the restored package contents along with its assembly locations, assembly references, and library folders) so that Bonsai will restore the new one from scratch
+    private replacePackage(bonsaiConfig: XmlDocument, replaceNode: XmlElement, newNode: XmlElement): void {
+        const bonsaiConfigPathRelative = path.relative(process.cwd(), this.bonsaiConfigPath);
+        const replaceId = xpath.select1Attribute('@id', replaceNode)?.nodeValue;
+        const replaceVersion = xpath.select1Attribute('@version', replaceNode)?.nodeValue;
+
+        assert(replaceId);
+        assert(replaceVersion);
+        assert(newNode.getAttribute('id')?.toUpperCase() == replaceId.toUpperCase());
+
+        // Remove the restored package from Bonsai's Packages directory in order to ensure it gets restored again
+        // (Only actually necessary if the versions match, but better safe than sorry.)
+        const replacePackagePath = path.join(this.packagesPath, `${replaceId}.${replaceVersion ?? 'ERROR'}`);
+        const replacePackagePathRelative = path.relative(process.cwd(), replacePackagePath);
+        const replacePackagePathLocal = path.relative(this.rootPath, replacePackagePath).replaceAll('\\', '/') + '/';
+
+        if (util.inputs.dryRun) {
+            core.info(`Would remove replaced package's contents '${replacePackagePathRelative}'`);
+        } else if (fs.existsSync(replacePackagePath)) {
+            core.info(`Removing replaced package's contents '${replacePackagePathRelative}'`);
+            fs.rmSync(replacePackagePath, { recursive: true });
+        } else if (!fs.existsSync(this.packagesPath)) {
+            core.debug(`Not removing replaced package's contents '${replacePackagePathRelative}', the environment has not been restored yet.`);
+        } else {
+            core.warning(`Want to remove replaced package's contents '${replacePackagePathRelative}', but they don't actually exist!`);
+        }
+
+        // Replace the node
+        replaceNode.parentNode!.replaceChild(newNode, replaceNode);
+
+        // Find assemblies related to the removed package via their associated <AssemblyLocation> nodes (which we will also remove)
+        // This might seem unecessary if you experiment with your Bonsai.config, but occasionally for whatever reason it makes Bonsai blow up to leave these around:
+        // System.InvalidOperationException:
+        //   The assembly reference '(Assembly.Name, MSIL)' has already been assigned to a different location. Consider uninstalling the conflicting package.
+        core.debug(`Checking for <AssemblyLocation>s with a location starting with '${replacePackagePathLocal}'`);
+        const relatedAssemblyLocations = xpath.selectElements(
+            BonsaiEnvironment.assemblyLocationsByPackageLocationSelector,
+            bonsaiConfig,
+            { variables: { packageLocation: replacePackagePathLocal } }
+        );
+
+        for (const relatedAssemblyLocation of relatedAssemblyLocations) {
+            const assemblyName = xpath.select1Attribute('@assemblyName', relatedAssemblyLocation)?.nodeValue;
+            let displayAssemblyName = assemblyName ?? '<error-assembly>';
+            if (!assemblyName) {
+                core.warning(`Failed to get assemblyName for <AssemblyLocation> at ${bonsaiConfigPathRelative}:${relatedAssemblyLocation.lineNumber}`);
+            }
+
+            core.info(`Removing associated location for assembly '${displayAssemblyName}' at ${bonsaiConfigPathRelative}:${relatedAssemblyLocation.lineNumber}`);
+            xpath.smartRemove(relatedAssemblyLocation);
+
+            if (assemblyName) {
+                const assemblyReferences = xpath.selectElements(
+                    BonsaiEnvironment.assemblyReferencesByNameSelector,
+                    bonsaiConfig,
+                    { variables: { assemblyName: assemblyName } }
+                );
+
+                for (const assemblyReference of assemblyReferences) {
+                    core.info(`Removing associated assembly reference at ${bonsaiConfigPathRelative}:${assemblyReference.lineNumber}`);
+                    xpath.smartRemove(assemblyReference);
+                }
+            }
+        }
+
+        // Find library folders related to the removed package
+        const relatedLibraryFolders = xpath.selectElements(
+            BonsaiEnvironment.libraryFolderByPackageLocationSelector,
+            bonsaiConfig,
+            { variables: { packageLocation: replacePackagePathLocal } }
+        );
+
+        for (const relatedLibraryFolder of relatedLibraryFolders) {
+            core.info(`Removing associated library folder at ${bonsaiConfigPathRelative}:${relatedLibraryFolder.lineNumber}`);
+            xpath.smartRemove(relatedLibraryFolder);
+        }
+    }
+
+    // Rewrites the versions of packages already listed in Bonsai.config, packages which aren't listed are left alone
+    public overridePackageVersions(overrides: Iterable<NuGetPackageOverride>): void {
+        const bonsaiConfigPathRelative = path.relative(process.cwd(), this.bonsaiConfigPath);
+        using _ = new util.ScopedGroup(`Overriding package versions in '${bonsaiConfigPathRelative}'...`);
+        const bonsaiConfig = util.parseXml(this.readConfig(this.bonsaiConfigPath));
+
+        let modified = false;
+        for (const override of overrides) {
+            const replaceNode = xpath.select1Element(BonsaiEnvironment.packageSelector, bonsaiConfig, { variables: { packageId: override.id } });
+            if (!replaceNode) {
+                core.info(`'${bonsaiConfigPathRelative}' does not reference '${override.id}', skipping.`);
+                continue;
+            }
+
+            const version = override.version.toString();
+            if (replaceNode.getAttribute('version') == version) {
+                core.info(`'${bonsaiConfigPathRelative}' already references ${override.id} ${version}.`);
+                continue;
+            }
+
+            if (!modified) {
+                modificationLog.logFileModificationIntent(this.bonsaiConfigPath, { packageOverrides: [...overrides].map(o => `${o.id}=${o.version}`) });
+                modified = true;
+            }
+
+            core.info(`Overriding ${override.id} ${replaceNode.getAttribute('version')} with ${override.id} ${version}`);
+            const overrideNode = bonsaiConfig.createElement('Package');
+            overrideNode.setAttribute('id', replaceNode.getAttribute('id')!);
+            overrideNode.setAttribute('version', version);
+            this.replacePackage(bonsaiConfig, replaceNode, overrideNode);
+        }
+
+        if (modified) {
+            this.writeConfig(this.bonsaiConfigPath, util.xmlToString(bonsaiConfig));
+        }
+    }
+
     public async injectPackages(nugetPackages: Iterable<LocalNuGetPackage>): Promise<void> {
         const bonsaiConfigPathRelative = path.relative(process.cwd(), this.bonsaiConfigPath);
         using _ = new util.ScopedGroup(`Adding packages to '${bonsaiConfigPathRelative}'...`);
         assert(fs.existsSync(this.bonsaiConfigPath), `'${bonsaiConfigPathRelative}' is expected to exist.`); // This will have been checked during the constructor
 
         modificationLog.logFileModificationIntent(this.bonsaiConfigPath);
-        const bonsaiConfigContent = fs.readFileSync(this.bonsaiConfigPath, 'utf8');
+        const bonsaiConfigContent = this.readConfig(this.bonsaiConfigPath);
         const bonsaiConfig = util.parseXml(bonsaiConfigContent);
 
         // Get the <Packages> node
@@ -376,75 +1359,7 @@ export class BonsaiEnvironment {
 
             let replaceNode = xpath.select1Element(BonsaiEnvironment.packageSelector, bonsaiConfig, { variables: { packageId: nugetPackage.id } });
             if (replaceNode) {
-                const replaceId = xpath.select1Attribute('@id', replaceNode)?.nodeValue;
-                const replaceVersion = xpath.select1Attribute('@version', replaceNode)?.nodeValue;
-
-                assert(replaceId);
-                assert(replaceVersion);
-                assert(nugetPackage.id.toUpperCase() == replaceId.toUpperCase());
-
-                // Remove the restored package from Bonsai's Packages directory in order to ensure it gets restored again
-                // (Only actually necessary if the versions match, but better safe than sorry.)
-                const replacePackagePath = path.join(this.packagesPath, `${replaceId}.${replaceVersion ?? 'ERROR'}`);
-                const replacePackagePathRelative = path.relative(process.cwd(), replacePackagePath);
-                const replacePackagePathLocal = path.relative(this.rootPath, replacePackagePath).replaceAll('\\', '/') + '/';
-
-                if (fs.existsSync(replacePackagePath)) {
-                    core.info(`Removing replaced package's contents '${replacePackagePathRelative}'`);
-                    fs.rmSync(replacePackagePath, { recursive: true });
-                } else {
-                    core.warning(`Want to remove replaced package's contents '${replacePackagePathRelative}', but they don't actually exist!`);
-                }
-
-                // Replace the node
-                packagesNode.replaceChild(injectedNode, replaceNode);
-
-                // Find assemblies related to the removed package via their associated <AssemblyLocation> nodes (which we will also remove)
-                // This might seem unecessary if you experiment with your Bonsai.config, but occasionally for whatever reason it makes Bonsai blow up to leave these around:
-                // System.InvalidOperationException:
-                //   The assembly reference '(Assembly.Name, MSIL)' has already been assigned to a different location. Consider uninstalling the conflicting package.
-                core.debug(`Checking for <AssemblyLocation>s with a location starting with '${replacePackagePathLocal}'`);
-                const relatedAssemblyLocations = xpath.selectElements(
-                    BonsaiEnvironment.assemblyLocationsByPackageLocationSelector,
-                    bonsaiConfig,
-                    { variables: { packageLocation: replacePackagePathLocal } }
-                );
-
-                for (const relatedAssemblyLocation of relatedAssemblyLocations) {
-                    const assemblyName = xpath.select1Attribute('@assemblyName', relatedAssemblyLocation)?.nodeValue;
-                    let displayAssemblyName = assemblyName ?? '<error-assembly>';
-                    if (!assemblyName) {
-                        core.warning(`Failed to get assemblyName for <AssemblyLocation> at ${bonsaiConfigPathRelative}:${relatedAssemblyLocation.lineNumber}`);
-                    }
-
-                    core.info(`Removing associated location for assembly '${displayAssemblyName}' at ${bonsaiConfigPathRelative}:${relatedAssemblyLocation.lineNumber}`);
-                    xpath.smartRemove(relatedAssemblyLocation);
-
-                    if (assemblyName) {
-                        const assemblyReferences = xpath.selectElements(
-                            BonsaiEnvironment.assemblyReferencesByNameSelector,
-                            bonsaiConfig,
-                            { variables: { assemblyName: assemblyName } }
-                        );
-
-                        for (const assemblyReference of assemblyReferences) {
-                            core.info(`Removing associated assembly reference at ${bonsaiConfigPathRelative}:${assemblyReference.lineNumber}`);
-                            xpath.smartRemove(assemblyReference);
-                        }
-                    }
-                }
-
-                // Find library folders related to the removed package
-                const relatedLibraryFolders = xpath.selectElements(
-                    BonsaiEnvironment.libraryFolderByPackageLocationSelector,
-                    bonsaiConfig,
-                    { variables: { packageLocation: replacePackagePathLocal } }
-                );
-
-                for (const relatedLibraryFolder of relatedLibraryFolders) {
-                    core.info(`Removing associated library folder at ${bonsaiConfigPathRelative}:${relatedLibraryFolder.lineNumber}`);
-                    xpath.smartRemove(relatedLibraryFolder);
-                }
+                this.replacePackage(bonsaiConfig, replaceNode, injectedNode);
             } else {
                 packagesNode.insertBefore(injectedNode, insertionPoint);
                 packagesNode.insertBefore(referenceIndentation.cloneNode(), injectedNode);
@@ -453,7 +1368,7 @@ export class BonsaiEnvironment {
 
         // Write out the updated configuration
         const newConfig = util.xmlToString(bonsaiConfig);
-        fs.writeFileSync(this.bonsaiConfigPath, newConfig);
+        this.writeConfig(this.bonsaiConfigPath, newConfig);
 
         core.info('Final updated config:');
         core.info(newConfig.trim());
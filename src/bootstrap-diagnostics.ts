@@ -0,0 +1,69 @@
+// This file classifies the errors Bonsai (or rather, the NuGet client within Bonsai) reports while bootstrapping an environment
+// The patterns here are matched against individual lines of output, they're intentionally loose since the exact wording varies between Bonsai and NuGet versions.
+
+export enum BootstrapErrorKind {
+    // Network or package feed errors which will likely succeed if retried
+    Transient = 'transient',
+    // Errors resolving the packages requested by the environment, retrying will not help
+    Resolution = 'resolution',
+}
+
+export interface BootstrapDiagnostic {
+    kind: BootstrapErrorKind;
+    message: string;
+    // The package or assembly the error relates to, when it could be determined
+    packageId?: string;
+    assemblyName?: string;
+}
+
+const transientPatterns: RegExp[] = [
+    /\b5\d\d \((Internal Server Error|Bad Gateway|Service Unavailable|Gateway Time-?out)\)/i,
+    /\b429 \(Too Many Requests\)/i,
+    /\bhas timed out\b/i,
+    /\bThe operation has timed out\b/i,
+    /\bA task was canceled\b/i,
+    /\bAn error occurred while sending the request\b/i,
+    /\bUnable to connect to the remote server\b/i,
+    /\bThe remote name could not be resolved\b/i,
+    /\bName or service not known\b/i,
+    /\bConnection reset by peer\b/i,
+    /\bThe underlying connection was closed\b/i,
+    /\bThe (SSL|TLS) connection could not be established\b/i,
+];
+
+// Patterns which capture an `id` group identify the package the error relates to, `assembly` groups identify an assembly
+const resolutionPatterns: RegExp[] = [
+    /\bUnable to find version '[^']+' of package '(?<id>[^']+)'/i,
+    /\bUnable to find package '(?<id>[^']+)'/i,
+    /\bUnable to find package (?<id>[A-Za-z0-9_\-\.]*[A-Za-z0-9_\-])/i,
+    /\bUnable to resolve dependency '(?<id>[^' ]+)/i,
+    /\bPackage '(?<id>[^' ]+) [^']+' is not found\b/i,
+    /\bThe assembly reference '\((?<assembly>[^,]+), [^)]+\)' has already been assigned to a different location\b/i,
+    /\bNU110[123]\b/,
+];
+
+export function parseBootstrapOutput(output: string): BootstrapDiagnostic[] {
+    let result: BootstrapDiagnostic[] = [];
+    for (let line of output.split(/\r?\n/)) {
+        line = line.trim();
+        const resolutionMatch = resolutionPatterns.map(p => line.match(p)).find(m => m !== null);
+        if (resolutionMatch) {
+            result.push({
+                kind: BootstrapErrorKind.Resolution,
+                message: line,
+                packageId: resolutionMatch.groups?.id,
+                assemblyName: resolutionMatch.groups?.assembly,
+            });
+        } else if (transientPatterns.some(p => p.test(line))) {
+            result.push({ kind: BootstrapErrorKind.Transient, message: line });
+        }
+    }
+
+    return result;
+}
+
+// A failure is only considered transient if every error we recognized was transient
+// Failures we don't recognize at all are assumed to be genuine since retrying them would only waste time
+export function isTransientFailure(diagnostics: BootstrapDiagnostic[]): boolean {
+    return diagnostics.length > 0 && diagnostics.every(d => d.kind == BootstrapErrorKind.Transient);
+}
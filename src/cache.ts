@@ -1,10 +1,11 @@
 import * as cache from '@actions/cache';
 import * as core from '@actions/core';
-import * as exec from '@actions/exec';
 import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as tar from 'tar';
 import { BonsaiEnvironment } from './bonsai';
+import { LocalNuGetPackage } from './nuget';
 import * as util from './util';
 import { State } from './util';
 
@@ -14,33 +15,144 @@ export enum CacheState {
     Full = 'full',
 }
 
-export class SetupBonsaiCache {
+export enum CacheMode {
+    // A single cache entry is shared by all environments
+    Combined = 'combined',
+    // Each distinct environment configuration gets its own cache entry
+    PerEnvironment = 'per-environment',
+}
+
+export enum CacheCompression {
+    None = 'none',
+    Gzip = 'gzip',
+    Brotli = 'brotli',
+    // Requires a version of Node.js which supports zstd, which is not the case for the Node.js 20 runtime used by GitHub Actions at the time of writing
+    Zstd = 'zstd',
+}
+
+function parseEnumInput<T extends string>(enumObject: Record<string, T>, inputName: string, value: string): T {
+    for (const enumValue of Object.values(enumObject)) {
+        if (enumValue == value) {
+            return enumValue;
+        }
+    }
+
+    throw Error(`Unknown ${inputName} '${value}', expected one of: ${Object.values(enumObject).join(', ')}`);
+}
+
+function getArchiveExtension(compression: CacheCompression): string {
+    switch (compression) {
+        case CacheCompression.None: return '.tar';
+        case CacheCompression.Gzip: return '.tar.gz';
+        case CacheCompression.Brotli: return '.tar.br';
+        case CacheCompression.Zstd: return '.tar.zst';
+    }
+}
+
+// This is what gets persisted to the action state so the post action knows what to upload
+interface CacheEntryState {
+    primaryKey: string;
+    fileName: string;
+    restoredFrom: string | null;
+    isDegraded: boolean;
+}
+
+// Each cache archive contains a manifest describing its contents so that they can be verified after restoring
+// Paths are relative to the cache folder and always use forward slashes.
+interface CacheManifestFile {
+    path: string;
+    sha256: string;
+    packageId?: string;
+    packageVersion?: string;
+}
+
+interface CacheManifest {
+    files: CacheManifestFile[];
+}
+
+const manifestFolderName = 'manifests';
+
+export class CacheEntry {
     readonly primaryKey: string;
-    private readonly restoreKeys: string[];
+    readonly restoreKeys: string[];
+    readonly fileName: string;
+
+    // The environments whose packages make up this entry
+    // This is only known when restoring, and is empty for the combined cache since it simply captures everything.
+    readonly environments: BonsaiEnvironment[];
+
+    readonly stagedCacheFilePath: string;
+    readonly actualCacheFilePath: string;
+    readonly manifestPath: string;
+
+    restoredFrom: string | null;
+
+    // Indicates some of the restored files failed verification and were quarantined
+    isDegraded: boolean = false;
+
+    // The size of the captured archive in bytes and how long it took to create in milliseconds (when captured)
+    archiveSize: number | null = null;
+    archiveDuration: number | null = null;
+
+    public get state(): CacheState {
+        if (this.primaryKey == this.restoredFrom && !this.isDegraded) {
+            return CacheState.Full;
+        } else if (this.restoredFrom) {
+            return CacheState.Partial;
+        } else {
+            return CacheState.NoHit;
+        }
+    }
+
+    public constructor(primaryKey: string, restoreKeys: string[], fileName: string, environments: BonsaiEnvironment[], restoredFrom: string | null) {
+        this.primaryKey = primaryKey;
+        this.restoreKeys = [...restoreKeys, `${primaryKey}-incomplete`];
+        this.fileName = fileName;
+        this.environments = environments;
+        this.restoredFrom = restoredFrom;
+
+        // Because we save everything in folder associated with our invocation ID and @actions/cache wants to cache based on absolute file paths,
+        // we work with out cache in a invocation-specific (staged) location, but move it to a more generic (actual) location when @actions/cache needs to touch it.
+        this.stagedCacheFilePath = util.getCachedPath('..', fileName);
+        this.actualCacheFilePath = util.getTemporaryPath(fileName);
+        this.manifestPath = util.getCachedPath(manifestFolderName, `${fileName}.json`);
+    }
+
+    public toState(): CacheEntryState {
+        return {
+            primaryKey: this.primaryKey,
+            fileName: this.fileName,
+            restoredFrom: this.restoredFrom,
+            isDegraded: this.isDegraded,
+        };
+    }
+}
+
+export class SetupBonsaiCache {
+    readonly mode: CacheMode;
+    readonly entries: CacheEntry[];
 
     readonly cachePath: string;
     readonly packageCacheRoot: string;
-    private readonly stagedCacheFilePath: string;
-    private readonly actualCacheFilePath: string;
 
-    private _restoredFrom: string | null = null;
     public get restoredFrom(): string | null {
-        return this._restoredFrom;
-    }
-    private set restoredFrom(value: string | null) {
-        this._restoredFrom = value;
+        const restoredFrom = this.entries.map(e => e.restoredFrom).filter(k => k !== null);
+        return restoredFrom.length > 0 ? restoredFrom.join(', ') : null;
     }
 
     public get state(): CacheState {
-        if (this.primaryKey == this.restoredFrom) {
+        if (this.entries.every(e => e.state == CacheState.Full)) {
             return CacheState.Full;
-        } else if (this.restoredFrom) {
+        } else if (this.entries.some(e => e.state != CacheState.NoHit)) {
             return CacheState.Partial;
         } else {
             return CacheState.NoHit;
         }
     }
 
+    // The number of bytes reclaimed by pruning the package cache before capturing it
+    prunedBytes: number | null = null; // Only known once the cache has been captured
+
     public get isEnabled(): boolean {
         return util.inputs.enableCache;
     }
@@ -58,188 +170,464 @@ export class SetupBonsaiCache {
         core.saveState(State.CacheIsIncomplete, (this._isIncomplete = value).toString());
     }
 
-    private constructor(primaryKey: string, restoreKeys: string[], restoredFromKey: string | null) {
-        this.primaryKey = primaryKey;
-        this.restoreKeys = [...restoreKeys, `${primaryKey}-incomplete`];
-        this.restoredFrom = restoredFromKey;
+    // The environments using this cache, only known when restoring
+    private readonly environments: BonsaiEnvironment[];
 
-        // Because we save everything in folder associated with our invocation ID and @actions/cache wants to cache based on absolute file paths,
-        // we work with out cache in a invocation-specific (staged) location, but move it to a more generic (actual) location when @actions/cache needs to touch it.
-        // Additionally, we don't let @actions/cache handle gathering the individual files due to the above, but also we need to capture the state of the package folders
+    private constructor(mode: CacheMode, entries: CacheEntry[], environments: BonsaiEnvironment[]) {
+        this.mode = mode;
+        this.entries = entries;
+        this.environments = environments;
+
+        // We don't let @actions/cache handle gathering the individual files since we need to capture the state of the package folders
         // *before* we modify them for injecting packages.
         this.cachePath = util.getCachedPath();
         this.packageCacheRoot = util.getCachedPath('package-cache');
-        this.stagedCacheFilePath = util.getCachedPath('..', 'cache.tar');
-        this.actualCacheFilePath = util.getTemporaryPath('cache.tar');
 
         fs.mkdirSync(this.cachePath, { recursive: true });
         fs.mkdirSync(this.packageCacheRoot, { recursive: true });
     }
 
+    private saveEntriesState(): void {
+        core.saveState(State.CacheEntries, JSON.stringify(this.entries.map(e => e.toState())));
+    }
+
     public static createForRestore(environments: BonsaiEnvironment[]): SetupBonsaiCache {
+        const mode = parseEnumInput(CacheMode, 'cache mode', util.inputs.cacheMode);
+        const compression = parseEnumInput(CacheCompression, 'cache compression', util.inputs.cacheCompression);
+        const extension = getArchiveExtension(compression);
+
         // Build cache key
         // Note that it is not necessary to handle the difference operating systems having different temporary directories, the actions cache infrastructure already handles that:
         // https://github.com/actions/cache#cache-version
         // It's not fatal if two concurrent jobs in a matrix end up having the same primary key and cache version key, one will simply quietly fail to reserve a key and skip the upload.
         // A message is printed, but it's not marked as a warning or error or anything that might cause annoyance.
-        let primaryKey = "setup-bonsai-";
+        let keyPrefix = "setup-bonsai-";
 
         if (util.inputs.cacheKeyPrefix) {
-            primaryKey += `${util.inputs.cacheKeyPrefix}-`;
+            keyPrefix += `${util.inputs.cacheKeyPrefix}-`;
         }
 
-        const restoreKeys = [primaryKey];
+        let entries: CacheEntry[] = [];
+        if (mode == CacheMode.Combined) {
+            const hash = crypto.createHash('sha256');
+            for (const environment of environments) {
+                hash.update(environment.relativePath);
+                hash.update(environment.readConfig(environment.bonsaiConfigPath));
+                hash.update(fs.readFileSync(environment.nugetConfigPath));
+            }
 
-        const hash = crypto.createHash('sha256');
-        for (const environment of environments) {
-            hash.update(environment.relativePath);
-            hash.update(fs.readFileSync(environment.bonsaiConfigPath));
-            hash.update(fs.readFileSync(environment.nugetConfigPath));
+            entries.push(new CacheEntry(`${keyPrefix}${hash.digest('hex')}`, [keyPrefix], `cache${extension}`, [], null));
+        } else {
+            // Entries are content-addressed by the environment configuration, so environments with identical configurations share an entry.
+            // There are no fallback restore keys, the entire point of this mode is that environments which have changed are simply fetched fresh.
+            const entriesByKey = new Map<string, CacheEntry>();
+            for (const environment of environments) {
+                const hash = crypto.createHash('sha256');
+                hash.update(environment.readConfig(environment.bonsaiConfigPath));
+                hash.update(fs.readFileSync(environment.nugetConfigPath));
+                const contentHash = hash.digest('hex');
+
+                const primaryKey = `${keyPrefix}env-${contentHash}`;
+                let entry = entriesByKey.get(primaryKey);
+                if (!entry) {
+                    entry = new CacheEntry(primaryKey, [], `cache-${contentHash}${extension}`, [], null);
+                    entriesByKey.set(primaryKey, entry);
+                    entries.push(entry);
+                }
+
+                entry.environments.push(environment);
+            }
         }
-        primaryKey += hash.digest('hex');
 
-        core.saveState(State.CachePrimaryKey, primaryKey);
-        return new SetupBonsaiCache(primaryKey, restoreKeys, null);
+        const result = new SetupBonsaiCache(mode, entries, environments);
+        result.saveEntriesState();
+        return result;
     }
 
     public static createForUpload(): SetupBonsaiCache {
-        const primaryKey = core.getState(State.CachePrimaryKey);
-        if (!primaryKey) {
-            throw Error("Primary key is unavailable, cannot save cache.");
+        const entriesState = core.getState(State.CacheEntries);
+        if (!entriesState) {
+            throw Error("Cache entries are unavailable, cannot save cache.");
         }
 
-        const restoredFromKey = core.getState(State.CacheRestoredFrom);
-
-        return new SetupBonsaiCache(primaryKey, [], restoredFromKey);
+        const entries = (<CacheEntryState[]>JSON.parse(entriesState)).map(e => {
+            const entry = new CacheEntry(e.primaryKey, [], e.fileName, [], e.restoredFrom);
+            entry.isDegraded = e.isDegraded;
+            return entry;
+        });
+        return new SetupBonsaiCache(parseEnumInput(CacheMode, 'cache mode', util.inputs.cacheMode), entries, []);
     }
 
     public async restore(): Promise<void> {
         if (!this.isEnabled) {
-            core.debug(`Skipping cache restore of ${this.primaryKey} as caching is not enabled.`);
+            core.debug(`Skipping cache restore as caching is not enabled.`);
             return;
         }
 
         // Don't do anything if we're running locally
         if (util.actionIsUnderTest && !cache.isFeatureAvailable()) {
-            core.warning(`Ignoring restore of ${this.primaryKey}, the cache service is not configured.`);
+            core.warning(`Ignoring cache restore, the cache service is not configured.`);
             return;
         }
 
+        for (const entry of this.entries) {
+            await this.restoreEntry(entry);
+        }
+
+        await this.quarantineUnlistedFiles();
+        this.saveEntriesState();
+    }
+
+    private async restoreEntry(entry: CacheEntry): Promise<void> {
         let restoredFrom;
         {
-            using _ = new util.ScopedGroup("Restoring cache...");
-            restoredFrom = await cache.restoreCache([this.actualCacheFilePath], this.primaryKey, this.restoreKeys);
+            using _ = new util.ScopedGroup(`Restoring cache ${entry.primaryKey}...`);
+            restoredFrom = await cache.restoreCache([entry.actualCacheFilePath], entry.primaryKey, entry.restoreKeys);
         }
 
         if (restoredFrom) {
             {
                 using _ = new util.ScopedGroup(`Extracting restored cache from ${restoredFrom}...`);
-                const workingDirectory = path.dirname(this.stagedCacheFilePath);
-                const args = [ '-xf', this.actualCacheFilePath ];
-
-                if (core.isDebug()) {
-                    args.unshift('--verbose');
-                }
-
-                core.debug(`Command will be run from '${workingDirectory}'`);
-                const errorCode = await exec.exec('tar', args, {
-                    cwd: workingDirectory,
-                    ignoreReturnCode: true,
-                });
-
-                if (errorCode !== 0) {
-                    core.warning(`Failed to extract the restored cache, it was not used.`);
+                try {
+                    await tar.extract({
+                        file: entry.actualCacheFilePath,
+                        cwd: path.dirname(entry.stagedCacheFilePath),
+                        strict: true,
+                        ...SetupBonsaiCache.getCompressionOptions(entry.fileName),
+                        filter: SetupBonsaiCache.logArchiveEntry,
+                    });
+                    entry.restoredFrom = restoredFrom;
+                } catch (error) {
+                    core.warning(`Failed to extract the restored cache, it was not used: ${error}`);
                     restoredFrom = undefined;
-                } else {
-                    this.restoredFrom = restoredFrom;
-                    core.saveState(State.CacheRestoredFrom, restoredFrom);
                 }
             }
 
+            if (entry.restoredFrom) {
+                await this.verifyEntry(entry);
+            }
+
             await util.uploadDebugArtifact(
                 `CacheDebug.Restored.${restoredFrom}`,
                 'restored cache',
-                [this.actualCacheFilePath],
-                path.dirname(this.actualCacheFilePath)
+                [entry.actualCacheFilePath],
+                path.dirname(entry.actualCacheFilePath)
             );
         }
     }
 
+    private static getCompressionOptions(fileName: string): { gzip?: boolean, brotli?: boolean, zstd?: boolean } {
+        // The compression is inferred from the archive name rather than the input since it has to match the archive we're actually working with
+        if (fileName.endsWith(getArchiveExtension(CacheCompression.Gzip))) {
+            return { gzip: true };
+        } else if (fileName.endsWith(getArchiveExtension(CacheCompression.Brotli))) {
+            return { brotli: true };
+        } else if (fileName.endsWith(getArchiveExtension(CacheCompression.Zstd))) {
+            return { zstd: true };
+        } else {
+            return {};
+        }
+    }
+
+    private static logArchiveEntry(entryPath: string): boolean {
+        core.debug(entryPath);
+        return true;
+    }
+
+    private getQuarantinePath(relativePath: string): string {
+        return util.getTemporaryPath(util.invocationId, 'cache-quarantine', relativePath);
+    }
+
+    private quarantine(relativePath: string, reason: string): void {
+        const filePath = path.join(this.cachePath, relativePath);
+        const quarantinePath = this.getQuarantinePath(relativePath);
+        core.warning(`Quarantining '${relativePath}' from the restored cache: ${reason}`);
+        fs.mkdirSync(path.dirname(quarantinePath), { recursive: true });
+        fs.renameSync(filePath, quarantinePath);
+    }
+
+    // Manifests come from the restored cache so they can't be trusted to only refer to files inside of it
+    private isCachePath(relativePath: string): boolean {
+        if (path.isAbsolute(relativePath)) {
+            return false;
+        }
+
+        const resolvedPath = path.relative(this.cachePath, path.resolve(this.cachePath, relativePath));
+        return resolvedPath != '' && resolvedPath != '..' && !resolvedPath.startsWith(`..${path.sep}`) && !path.isAbsolute(resolvedPath);
+    }
+
+    private readManifest(entry: CacheEntry): CacheManifest | null {
+        if (!fs.existsSync(entry.manifestPath)) {
+            return null;
+        }
+
+        try {
+            return <CacheManifest>JSON.parse(fs.readFileSync(entry.manifestPath, 'utf8'));
+        } catch (error) {
+            core.warning(`Failed to read cache manifest for ${entry.restoredFrom}: ${error}`);
+            return null;
+        }
+    }
+
+    // Ensures every file restored from the cache matches the manifest, anything which doesn't is quarantined so that we never serve it to Bonsai
+    private async verifyEntry(entry: CacheEntry): Promise<void> {
+        using _ = new util.ScopedGroup(`Verifying restored cache ${entry.restoredFrom}...`);
+        const manifest = this.readManifest(entry);
+        if (!manifest) {
+            // Everything restored by this entry is unlisted, so it'll all end up quarantined once all entries are restored.
+            core.warning(`Restored cache ${entry.restoredFrom} does not have a valid manifest, its contents will not be used.`);
+            entry.isDegraded = true;
+            return;
+        }
+
+        let verifiedCount = 0;
+        for (const file of manifest.files) {
+            if (!this.isCachePath(file.path)) {
+                core.warning(`'${file.path}' is listed in the manifest of ${entry.restoredFrom} but is outside of the cache, ignoring it.`);
+                entry.isDegraded = true;
+                continue;
+            }
+
+            const filePath = path.join(this.cachePath, file.path);
+            if (!fs.existsSync(filePath)) {
+                core.warning(`'${file.path}' is listed in the manifest of ${entry.restoredFrom} but was not restored.`);
+                entry.isDegraded = true;
+                continue;
+            }
+
+            const actualHash = await util.hashFile(filePath);
+            if (actualHash != file.sha256) {
+                this.quarantine(file.path, `Expected hash ${file.sha256} but got ${actualHash}.`);
+                entry.isDegraded = true;
+                continue;
+            }
+
+            verifiedCount++;
+        }
+
+        core.info(`Verified ${verifiedCount}/${manifest.files.length} files restored from ${entry.restoredFrom}`);
+
+        // Nothing usable came out of the entry, treat it as if it were never restored
+        if (verifiedCount == 0 && manifest.files.length > 0) {
+            entry.restoredFrom = null;
+        }
+    }
+
+    // Anything in the cache folder which isn't listed in any of the restored manifests can't be trusted
+    private async quarantineUnlistedFiles(): Promise<void> {
+        const listedFiles = new Set<string>();
+        for (const entry of this.entries) {
+            for (const file of this.readManifest(entry)?.files ?? []) {
+                if (this.isCachePath(file.path)) {
+                    listedFiles.add(file.path);
+                }
+            }
+        }
+
+        for (const relativePath of this.listCacheFiles()) {
+            if (!listedFiles.has(relativePath)) {
+                this.quarantine(relativePath, "It is not listed in any cache manifest.");
+
+                // We don't know which entry this came from, so conservatively downgrade all of the restored ones
+                for (const entry of this.entries) {
+                    if (entry.restoredFrom) {
+                        entry.isDegraded = true;
+                    }
+                }
+            }
+        }
+    }
+
+    // Lists all files in the cache folder, excluding the manifests
+    private listCacheFiles(): string[] {
+        return fs.readdirSync(this.cachePath, { withFileTypes: true, recursive: true })
+            .filter(f => f.isFile())
+            .map(f => path.relative(this.cachePath, path.join(f.parentPath, f.name)).replaceAll('\\', '/'))
+            .filter(p => !p.startsWith(`${manifestFolderName}/`));
+    }
+
+    private async writeManifest(entry: CacheEntry, filePaths: string[]): Promise<void> {
+        const manifest: CacheManifest = { files: [] };
+        for (const filePath of filePaths) {
+            const file: CacheManifestFile = {
+                path: path.relative(this.cachePath, filePath).replaceAll('\\', '/'),
+                sha256: await util.hashFile(filePath),
+            };
+
+            if (filePath.endsWith('.nupkg')) {
+                const nugetPackage = new LocalNuGetPackage(filePath);
+                file.packageId = nugetPackage.id;
+                file.packageVersion = nugetPackage.version.toString();
+            }
+
+            manifest.files.push(file);
+        }
+
+        fs.mkdirSync(path.dirname(entry.manifestPath), { recursive: true });
+        fs.writeFileSync(entry.manifestPath, JSON.stringify(manifest, null, 2));
+        core.info(`Wrote manifest of ${manifest.files.length} files for ${entry.primaryKey}`);
+    }
+
     public async captureCache(): Promise<void> {
         if (!this.isEnabled) {
             core.debug("Skipping cache capture as caching is not enabled.");
             return;
         }
 
-        if (this.state == CacheState.Full) {
-            if (core.isDebug()) {
-                core.debug("Would typically skip the cache capture here as we had an exact cache hit, but capturing it anyway for debugging purposes.");
-            } else {
-                core.debug("Skipping cache capture as since we had an exact cache hit.");
-                return;
+        await this.prunePackageCache();
+
+        for (const entry of this.entries) {
+            if (entry.state == CacheState.Full) {
+                if (core.isDebug()) {
+                    core.debug(`Would typically skip the capture of ${entry.primaryKey} here as we had an exact cache hit, but capturing it anyway for debugging purposes.`);
+                } else {
+                    core.debug(`Skipping cache capture of ${entry.primaryKey} since we had an exact cache hit.`);
+                    continue;
+                }
+            }
+
+            await this.captureEntry(entry);
+        }
+    }
+
+    // Removes packages which aren't used by any environment so that the cache reflects the current state of each Bonsai.config rather than its history
+    private async prunePackageCache(): Promise<void> {
+        if (this.environments.length == 0) {
+            throw Error("The environments using the cache are unknown, cannot prune the package cache.");
+        }
+
+        using _ = new util.ScopedGroup("Pruning unreferenced packages from the package cache...");
+        const referencedPackages = new Set<string>();
+        for (const environment of this.environments) {
+            for (const packagePath of await environment.getInstalledPackagePaths()) {
+                referencedPackages.add(path.basename(packagePath).toLowerCase());
             }
         }
 
-        {
-            using _ = new util.ScopedGroup("Capturing cache tarball...");
-            const workingDirectory = path.dirname(this.stagedCacheFilePath);
-            const args = [
-                '--posix',
-                '-cf',
-                path.basename(this.stagedCacheFilePath),
-                path.relative(workingDirectory, this.cachePath),
-            ];
+        let prunedCount = 0;
+        let reclaimedBytes = 0;
+        for (const fileName of fs.readdirSync(this.packageCacheRoot)) {
+            if (referencedPackages.has(fileName.toLowerCase())) {
+                continue;
+            }
+
+            const filePath = path.join(this.packageCacheRoot, fileName);
+            reclaimedBytes += fs.statSync(filePath).size;
+            prunedCount++;
+            fs.rmSync(filePath, { recursive: true });
+            core.debug(`Pruned unreferenced package '${fileName}'`);
+        }
+
+        this.prunedBytes = reclaimedBytes;
+        core.info(`Pruned ${prunedCount} unreferenced package${prunedCount == 1 ? '' : 's'} from the package cache, reclaiming ${reclaimedBytes} bytes.`);
+    }
+
+    private async getEntryContents(entry: CacheEntry): Promise<string[]> {
+        // The combined cache simply contains everything
+        if (this.mode == CacheMode.Combined) {
+            return this.listCacheFiles().map(p => path.join(this.cachePath, p));
+        }
+
+        // Otherwise the entry only contains what its environments actually use
+        let result = new Set<string>();
+        for (const environment of entry.environments) {
+            const bonsaiPath = util.getCachedPath(environment.bonsaiFileName);
+            if (fs.existsSync(bonsaiPath)) {
+                result.add(bonsaiPath);
+            }
 
-            if (core.isDebug()) {
-                args.unshift('--verbose');
+            for (const packagePath of await environment.getInstalledPackagePaths()) {
+                const cachedPath = path.join(this.packageCacheRoot, path.basename(packagePath));
+                if (fs.existsSync(cachedPath)) {
+                    result.add(cachedPath);
+                } else {
+                    core.warning(`'${path.relative(process.cwd(), packagePath)}' is missing from the package cache, it will not be included in cache ${entry.primaryKey}.`);
+                }
             }
+        }
+
+        return [...result];
+    }
 
-            core.debug(`Command will be run from '${workingDirectory}'`);
-            const errorCode = await exec.exec('tar', args, {
-                cwd: workingDirectory,
-                ignoreReturnCode: true,
-            });
+    private async captureEntry(entry: CacheEntry): Promise<void> {
+        const contents = await this.getEntryContents(entry);
+        await this.writeManifest(entry, contents);
+        contents.push(entry.manifestPath);
 
-            if (errorCode !== 0) {
-                throw Error(`Failed to capture cache, tar exited with error ${errorCode}.`);
+        {
+            using _ = new util.ScopedGroup(`Capturing cache tarball for ${entry.primaryKey}...`);
+            const workingDirectory = path.dirname(entry.stagedCacheFilePath);
+            const startTime = performance.now();
+
+            try {
+                await tar.create(
+                    {
+                        file: entry.stagedCacheFilePath,
+                        cwd: workingDirectory,
+                        portable: true,
+                        ...SetupBonsaiCache.getCompressionOptions(entry.fileName),
+                        filter: SetupBonsaiCache.logArchiveEntry,
+                    },
+                    contents.map(p => path.relative(workingDirectory, p).replaceAll('\\', '/'))
+                );
+            } catch (error) {
+                throw Error(`Failed to capture cache: ${error}`);
             }
+
+            entry.archiveDuration = performance.now() - startTime;
+            entry.archiveSize = fs.statSync(entry.stagedCacheFilePath).size;
+            core.info(`Captured ${entry.fileName}: ${entry.archiveSize} bytes in ${(entry.archiveDuration / 1000).toFixed(2)} seconds`);
         }
 
         await util.uploadDebugArtifact(
-            `CacheDebug.${this.primaryKey}`,
+            `CacheDebug.${entry.primaryKey}`,
             'cache',
-            [this.stagedCacheFilePath],
-            path.dirname(this.stagedCacheFilePath)
+            [entry.stagedCacheFilePath],
+            path.dirname(entry.stagedCacheFilePath)
         );
     }
 
-    public async uploadCache(): Promise<number> {
+    public async uploadCache(): Promise<void> {
         if (!this.isEnabled) {
-            core.debug(`Skipping cache save of ${this.primaryKey} as caching is not enabled.`);
-            return -1;
+            core.debug(`Skipping cache save as caching is not enabled.`);
+            return;
+        }
+
+        for (const entry of this.entries) {
+            if (entry.state == CacheState.Full) {
+                core.info(`Exact cache hit ocurred on the primary key ${entry.primaryKey}, not saving it.`);
+                continue;
+            }
+
+            const cacheId = await this.uploadEntry(entry);
+            if (cacheId != -1) {
+                core.info(`Cache successfully saved with key '${entry.primaryKey}'`);
+            }
         }
+    }
 
-        if (!fs.existsSync(this.stagedCacheFilePath)) {
-            throw Error(`Staged cache file does not exist at '${this.stagedCacheFilePath}', cannot upload cache!`);
+    private async uploadEntry(entry: CacheEntry): Promise<number> {
+        if (!fs.existsSync(entry.stagedCacheFilePath)) {
+            throw Error(`Staged cache file does not exist at '${entry.stagedCacheFilePath}', cannot upload cache!`);
         }
 
         // The GitHub Actions caching infrastructure is sensitive to absolute file paths, so we don't want to cache our archive
         // when it's inside our invocation-specific temporary folder, hence this move.
-        fs.renameSync(this.stagedCacheFilePath, this.actualCacheFilePath);
+        fs.renameSync(entry.stagedCacheFilePath, entry.actualCacheFilePath);
 
         // Don't do anything if we're running locally without caching capabilities
         if (util.actionIsUnderTest && !cache.isFeatureAvailable()) {
-            core.warning(`Ignoring cache save of ${this.primaryKey}, the cache service is not configured.`);
+            core.warning(`Ignoring cache save of ${entry.primaryKey}, the cache service is not configured.`);
             return -1;
         }
 
-        let saveKey = this.primaryKey;
+        let saveKey = entry.primaryKey;
 
         if (this.isIncomplete) {
             saveKey += '-incomplete';
         }
 
-        using _ = new util.ScopedGroup("Saving cache...");
-        return await cache.saveCache([this.actualCacheFilePath], saveKey);
+        using _ = new util.ScopedGroup(`Saving cache ${saveKey}...`);
+        return await cache.saveCache([entry.actualCacheFilePath], saveKey);
     }
 }
@@ -0,0 +1,46 @@
+import { argStringToArray } from '@actions/exec/lib/toolrunner';
+import * as io from '@actions/io';
+import * as util from './util';
+
+// Bonsai and our helpers are .NET Framework executables, which need to be launched via Mono on platforms other than Windows
+// The launcher input allows replacing how this happens, IE: using a specific Mono, passing extra arguments to Mono, or wrapping Mono with another command such as xvfb-run
+export class Launcher {
+    // The command and arguments which precede the executable path, empty if executables are launched directly
+    readonly prefix: string[];
+
+    public constructor(launcher: string) {
+        this.prefix = argStringToArray(launcher.trim());
+    }
+
+    public static createDefault(): Launcher {
+        return new Launcher(process.platform == 'win32' ? '' : 'mono');
+    }
+
+    // Returns the command and arguments used to launch the specified executable
+    public getCommand(executablePath: string, args: string[]): { command: string, args: string[] } {
+        if (this.prefix.length == 0) {
+            return { command: executablePath, args: args };
+        }
+
+        return {
+            command: this.prefix[0],
+            args: [...this.prefix.slice(1), executablePath, ...args],
+        };
+    }
+
+    public formatCommand(executablePath: string, args: string[]): string {
+        const command = this.getCommand(executablePath, args);
+        return [command.command, ...command.args].join(' ');
+    }
+
+    // Returns false if the launcher's command could not be found
+    public async isAvailable(): Promise<boolean> {
+        if (this.prefix.length == 0) {
+            return true;
+        }
+
+        return !!(await io.which(this.prefix[0], false));
+    }
+}
+
+export const launcher = util.inputs.launcher ? new Launcher(util.inputs.launcher) : Launcher.createDefault();
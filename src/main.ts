@@ -1,19 +1,24 @@
 import * as core from '@actions/core';
 import * as glob from '@actions/glob';
-import * as io from '@actions/io';
 import { strict as assert } from 'assert';
 import * as fs from 'fs';
 import * as path from 'path';
-import { BonsaiEnvironment } from './bonsai';
+import * as semver from 'semver';
+import { SemVer } from 'semver';
+import { BonsaiEnvironment, PackageSourceCredentialsRecord, WorkflowResult } from './bonsai';
 import { CacheState, SetupBonsaiCache } from './cache';
+import { launcher } from './launcher';
 import * as modificationLog from './modification-log';
-import { LocalNuGetPackage, NuGetPackageSource } from './nuget';
+import { compareNuGetVersions, LocalNuGetPackage, NuGetPackageOverride, NuGetPackageSource, parsePackageOverrides, parsePackageSourceCredentials, parsePackageSources } from './nuget';
+import { JobSummary } from './summary';
 import * as util from './util';
-import { Outputs } from './util';
+import { Outputs, State } from './util';
 
 const inputs = util.inputs;
 
 let suppressModificationLogArchival = false;
+let packageSourceCredentialsRecords: PackageSourceCredentialsRecord[] = [];
+const jobSummary = new JobSummary();
 
 async function main(): Promise<void> {
     core.debug(`Starting action invocation ${util.invocationId}`);
@@ -34,12 +39,18 @@ async function main(): Promise<void> {
         core.warning("setup-bonsai used more than once per job. Note that the package cache will *not* be shared between invocations.");
     }
 
-    // Early detect if Mono will be needed but isn't available and print basic guidance
-    if (process.platform != 'win32' && !(await io.which('mono', false))) {
-        core.warning(
-            `Mono could not be found, setup-bonsai will most likely fail once it reaches the bootstrapping stag.
-            Mono is no longer installed on the latest GitHub-hosted runners. See https://github.com/bonsai-rx/setup-bonsai/issues/1 for details.`
-        );
+    if (inputs.generateLockFile && inputs.lockedMode) {
+        core.setFailed("The generate-lock-file and locked-mode inputs cannot be used together.");
+        return;
+    }
+
+    let bonsaiVersionOverride: SemVer | undefined = undefined;
+    if (inputs.bonsaiVersion) {
+        bonsaiVersionOverride = semver.parse(inputs.bonsaiVersion) ?? undefined;
+        if (!bonsaiVersionOverride) {
+            core.setFailed(`The bonsai-version input '${inputs.bonsaiVersion}' is not a valid version.`);
+            return;
+        }
     }
 
     // Enumerate environments
@@ -54,13 +65,17 @@ async function main(): Promise<void> {
             core.debug(`Checking '${relativePath}'...`);
 
             try {
-                const environment = new BonsaiEnvironment(environmentPath);
+                const environment = new BonsaiEnvironment(environmentPath, bonsaiVersionOverride);
                 environments.push(environment);
                 core.info(`Found Bonsai environment '${environment.relativePath}' using Bonsai ${environment.bonsaiVersion}`);
 
-                const prereleaseStart = environment.bonsaiVersion.prerelease[0];
-                if (typeof prereleaseStart === 'string' && prereleaseStart.match(/^ci\d+$/)) {
-                    core.warning(`Bonsai ${environment.bonsaiVersion} appears to be an unstable CI build of Bonsai, which is not yet supported. See https://github.com/bonsai-rx/setup-bonsai/issues/7`);
+                if (!environment.validateConfig()) {
+                    core.error(`Bonsai environment at '${relativePath}' has an invalid Bonsai.config.`);
+                    hadErrors = true;
+                }
+
+                if (environment.isCiBuild && inputs.bonsaiCiSources.length == 0) {
+                    core.warning(`Bonsai ${environment.bonsaiVersion} appears to be an unstable CI build of Bonsai, use the bonsai-ci-sources input to specify where it should be acquired from.`);
                 }
             } catch (error) {
                 core.error(`Bonsai environment at '${relativePath}' is invalid: ${error}`);
@@ -74,14 +89,39 @@ async function main(): Promise<void> {
         }
     }
     environments.sort((a, b) => util.stringCompare(a.relativePath, b.relativePath));
+    jobSummary.environments = environments;
 
     if (environments.length == 0) {
         core.setFailed(`Failed to find any Bonsai environments matching these patterns:\n${inputs.environmentPaths}`);
         return;
     }
 
+    // Early detect if Mono (or the specified launcher) will be needed but isn't available and print basic guidance
+    if (!await launcher.isAvailable()) {
+        const command = launcher.formatCommand(environments[0].bonsaiExePath, ['--no-editor']);
+        if (inputs.launcher) {
+            core.warning(`Launcher '${launcher.prefix[0]}' could not be found, setup-bonsai will most likely fail once it reaches the bootstrapping stage. (Would have run '${command}')`);
+        } else {
+            core.warning(
+                `Mono could not be found, setup-bonsai will most likely fail once it reaches the bootstrapping stage. (Would have run '${command}')
+                Mono is no longer installed on the latest GitHub-hosted runners. See https://github.com/bonsai-rx/setup-bonsai/issues/1 for details.`
+            );
+        }
+    }
+
+    // Override package versions
+    // This happens before the cache key is computed since (unlike injected packages) the overridden packages come from the usual package sources
+    let packageOverrides: NuGetPackageOverride[] = [];
+    if (inputs.packageOverrides.length > 0) {
+        util.sectionHeading("Override package versions");
+        packageOverrides = parsePackageOverrides(inputs.packageOverrides);
+        for (const environment of environments) {
+            environment.overridePackageVersions(packageOverrides);
+        }
+    }
+
     // Enumerate packages to be injected
-    let injectPackages = new Map<string, LocalNuGetPackage>();
+    let injectPackages: LocalNuGetPackage[] = [];
     const injectedPackagesPath = util.getTemporaryPath(util.invocationId, 'injected-packages');
 
     if (fs.existsSync(injectedPackagesPath)) {
@@ -108,11 +148,13 @@ async function main(): Promise<void> {
                 const nugetPackage = new LocalNuGetPackage(packagePath);
                 core.info(`Loaded local NuGet package ${nugetPackage.id} version ${nugetPackage.version} from '${relativePath}'`);
 
-                if (injectPackages.has(nugetPackage.id)) {
-                    core.error(`NuGet package id ${nugetPackage.id} appears in the injection list more than once!\n(Injecting multiple versions of the same package is currently unsupported.)`);
+                // Multiple versions of the same package are allowed, each environment receives the one matching its Bonsai.config
+                const duplicate = injectPackages.find(p => p.id.toUpperCase() == nugetPackage.id.toUpperCase() && compareNuGetVersions(p.version, nugetPackage.version) == 0);
+                if (duplicate) {
+                    core.error(`NuGet package ${nugetPackage.id} version ${nugetPackage.version} appears in the injection list more than once! ('${duplicate.relativePath}' and '${relativePath}')`);
                     haveErrors = true;
                 } else {
-                    injectPackages.set(nugetPackage.id, nugetPackage);
+                    injectPackages.push(nugetPackage);
                 }
             } catch (error) {
                 core.error(error?.toString() ?? `Unknown error while checking '${packagePath}'`);
@@ -125,10 +167,22 @@ async function main(): Promise<void> {
             return;
         }
     }
+    jobSummary.injectPackages = injectPackages;
+    core.setOutput(Outputs.InjectedPackages, injectPackages.map(describePackage));
+
+    // Each environment receives the version of each injected package which best matches its Bonsai.config
+    const selectedPackages = selectInjectedPackages(environments, injectPackages);
 
     // Restore cache
     util.sectionHeading("Restore cache", !util.inputs.enableCache);
     let cache: SetupBonsaiCache = SetupBonsaiCache.createForRestore(environments);
+    jobSummary.cache = cache;
+
+    if (inputs.dryRun) {
+        await dryRun(environments, cache, injectPackages, selectedPackages, injectedPackagesPath);
+        return;
+    }
+
     await cache.restore();
     core.setOutput(Outputs.CacheHit, cache.state);
 
@@ -146,85 +200,404 @@ async function main(): Promise<void> {
 
     // Install package sources
     util.sectionHeading("Inject local package sources");
-    {
-        let packageSources = [
-            new NuGetPackageSource(`setup-bonsai cache ${util.invocationId}`, cache.packageCacheRoot),
-        ];
+    addPackageSources(environments, cache, injectPackages, injectedPackagesPath);
 
-        if (injectPackages.size > 0) {
-            packageSources.unshift(new NuGetPackageSource(`setup-bonsai injected packages ${util.invocationId}`, injectedPackagesPath,));
-        }
-
-        core.info(`Injecting ${packageSources.length} package source${packageSources.length == 1 ? '' : 's'} into each environment`);
-        for (const environment of environments) {
-            environment.addPackageSources(packageSources);
+    // Populate the injected packages local package repo
+    // This happens before bootstrapping so that environments which already reference an injected package can restore it even if it was never published
+    if (injectPackages.length > 0) {
+        util.sectionHeading("Populate injected packages repo");
+        assert(fs.readdirSync(injectedPackagesPath).length == 0, "The injected packages path should still be empty at this point.");
+        for (const injectPackage of getInjectedPackagesRepoContents(injectPackages, selectedPackages)) {
+            fs.copyFileSync(injectPackage.path, path.join(injectedPackagesPath, path.basename(injectPackage.path)));
         }
     }
 
+    // Bonsai is expected to change the entries for packages we injected or overrode, so they're ignored when verifying Bonsai.config is frozen
+    const frozenIgnoredPackageIds = new Set([
+        ...injectPackages.map(p => p.id.toLowerCase()),
+        ...packageOverrides.map(o => o.id.toLowerCase()),
+        ...(bonsaiVersionOverride ? ['bonsai'] : []),
+    ]);
+
     // Bootstrap Bonsai
-    // util.sectionHeading("Bootstrap each Bonsai environment");
-    // {
-    //     let allSuccessful = true;
-    //     for (const environment of environments) {
-    //         allSuccessful &&= await environment.bootstrap();
-    //         await environment.capturePackages(cache.packageCacheRoot);
-    //     }
-
-    //     if (!allSuccessful) {
-    //         core.setFailed("Failed to restore one or more Bonsai environments.");
-    //         return;
-    //     }
-    // }
+    util.sectionHeading("Bootstrap each Bonsai environment");
+    if (!await bootstrapEnvironments(environments, frozenIgnoredPackageIds)) {
+        return;
+    }
 
     // Capture cache while it's still pristine (IE: before we inject unpredictable workflow-provided packages into it)
-    // util.sectionHeading("Capture cache");
-    // await cache?.captureCache();
+    // Injected packages which were restored from the injected packages repo are skipped since they didn't come from a real package source
+    util.sectionHeading("Capture cache", !cache.isEnabled);
+    if (cache.isEnabled) {
+        for (const environment of environments) {
+            await environment.capturePackages(cache.packageCacheRoot, injectPackages);
+        }
+    }
+    await cache.captureCache();
 
     // Inject packages
-    if (injectPackages.size == 0) {
-        // If there are no packages to inject, we simply bootstrap without populating the injected packages repo
-        util.sectionHeading("Bootstrapping Bonsai environment...");
-        let allSuccessful = true;
+    if (injectPackages.length > 0) {
+        util.sectionHeading("Inject packages");
         for (const environment of environments) {
-            allSuccessful &&= await environment.bootstrap();
+            await environment.injectPackages(selectedPackages.get(environment)!);
         }
 
-        if (!allSuccessful) {
-            core.setFailed("Failed to restore one or more Bonsai environments.");
+        // Restore all Bonsai environments again to install the injected packages
+        util.sectionHeading("Bootstrap each Bonsai environment with injected packages");
+        if (!await bootstrapEnvironments(environments, frozenIgnoredPackageIds, true)) {
             return;
         }
-    } else {
-        util.sectionHeading("Inject packages");
+    }
 
-        // Populate the injected packages local package repo
-        core.info("Populating local package repo...");
-        assert(fs.readdirSync(injectedPackagesPath).length == 0, "The injected packages path should still be empty at this point.");
-        for (const injectPackage of injectPackages.values()) {
-            fs.copyFileSync(injectPackage.path, path.join(injectedPackagesPath, path.basename(injectPackage.path)));
+    // Generate or verify lock files
+    if (inputs.generateLockFile || inputs.lockedMode) {
+        util.sectionHeading(inputs.lockedMode ? "Verify lock files" : "Generate lock files");
+        const injectedPackageIds = new Set(injectPackages.map(p => p.id.toLowerCase()));
+        let allMatch = true;
+        for (const environment of environments) {
+            if (inputs.lockedMode) {
+                allMatch = await environment.verifyLockFile(injectedPackageIds) && allMatch;
+            } else {
+                await environment.writeLockFile(injectedPackageIds);
+            }
         }
 
-        // Inject the packages
-        // for (const environment of environments) {
-        //     await environment.injectPackages(injectPackages.values());
-        // }
+        if (!allMatch) {
+            core.setFailed("The packages restored into one or more environments do not match their lock file.");
+            return;
+        }
+    }
 
-        // Restore all Bonsai environments again to install the injected packages
-        core.info("Bootstrapping Bonsai environment..");
-        let allSuccessful = true;
+    // Check workflows
+    if (inputs.checkWorkflows) {
+        util.sectionHeading("Check workflows");
+        if (!await checkWorkflows(environments)) {
+            core.setFailed("One or more workflows reference assemblies which are not available in their environment.");
+            return;
+        }
+    }
+
+    // Describe the restored environments for later steps
+    let environmentsOutput = [];
+    for (const environment of environments) {
+        environmentsOutput.push({
+            rootPath: environment.rootPath,
+            relativePath: environment.relativePath,
+            bonsaiVersion: environment.bonsaiVersion.toString(),
+            bonsaiExePath: environment.bonsaiExePath,
+            packages: (await environment.getInstalledPackages()).map(describePackage),
+        });
+    }
+    core.setOutput(Outputs.Environments, environmentsOutput);
+
+    // Run workflows
+    if (inputs.runWorkflows) {
+        util.sectionHeading("Run workflows");
+        await runWorkflows(environments);
+    }
+}
+
+function isWithin(directoryPath: string, filePath: string): boolean {
+    const relativePath = path.relative(directoryPath, filePath);
+    return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
+
+// Workflows are run by the environment closest to them, IE: the environment whose containing directory is the deepest ancestor of the workflow
+function findWorkflowEnvironment(workflowPath: string, environments: BonsaiEnvironment[]): BonsaiEnvironment | null {
+    let result: BonsaiEnvironment | null = null;
+    for (const environment of environments) {
+        const environmentParent = path.dirname(environment.rootPath);
+        if (!isWithin(environmentParent, workflowPath)) {
+            continue;
+        }
+
+        if (!result || environmentParent.length > path.dirname(result.rootPath).length) {
+            result = environment;
+        }
+    }
+
+    return result;
+}
+
+// Checks every workflow alongside each environment, workflows within environments themselves (IE: examples included with packages) are skipped
+async function checkWorkflows(environments: BonsaiEnvironment[]): Promise<boolean> {
+    const workflowPaths = new Set<string>();
+    for (const environment of environments) {
+        const workflowGlob = await glob.create(path.join(util.globEscape(path.dirname(environment.rootPath)), '**', '*.bonsai'), { implicitDescendants: false, matchDirectories: false });
+        for (const workflowPath of await workflowGlob.glob()) {
+            if (!environments.some(e => isWithin(e.rootPath, workflowPath))) {
+                workflowPaths.add(workflowPath);
+            }
+        }
+    }
+
+    let allValid = true;
+    let checkedCount = 0;
+    for (const workflowPath of [...workflowPaths].sort(util.stringCompare)) {
+        const relativePath = path.relative(process.cwd(), workflowPath);
+        const environment = findWorkflowEnvironment(workflowPath, environments)!;
+        core.debug(`Checking '${relativePath}' against '${environment.relativePath}'...`);
+
+        try {
+            allValid = environment.checkWorkflowAssemblies(workflowPath) && allValid;
+        } catch (error) {
+            core.error(`Failed to check workflow: ${error}`, { file: relativePath });
+            allValid = false;
+        }
+        checkedCount++;
+    }
+
+    core.info(`Checked ${checkedCount} workflow${checkedCount == 1 ? '' : 's'}`);
+    return allValid;
+}
+
+async function runWorkflows(environments: BonsaiEnvironment[]): Promise<void> {
+    let workflows: { path: string, environment: BonsaiEnvironment }[] = [];
+    let hadErrors = false;
+    core.debug(`Enumerating workflows from patterns:\n${inputs.runWorkflows}`);
+    const workflowPaths = await glob.create(inputs.runWorkflows, { implicitDescendants: false, matchDirectories: false });
+    for await (const workflowPath of workflowPaths.globGenerator()) {
+        const relativePath = path.relative(process.cwd(), workflowPath);
+
+        // Packages often contain example workflows, which we don't want to pick up when using patterns like **/*.bonsai
+        if (environments.some(e => isWithin(e.rootPath, workflowPath))) {
+            core.debug(`Skipping '${relativePath}' since it is within a Bonsai environment.`);
+            continue;
+        }
+
+        const environment = findWorkflowEnvironment(workflowPath, environments);
+        if (!environment) {
+            core.error(`Could not find a Bonsai environment to run '${relativePath}' with.`, { file: relativePath });
+            hadErrors = true;
+            continue;
+        }
+
+        core.info(`Found workflow '${relativePath}' for environment '${environment.relativePath}'`);
+        workflows.push({ path: workflowPath, environment: environment });
+    }
+
+    if (hadErrors) {
+        core.setFailed("One or more workflows could not be matched with an environment.");
+        return;
+    } else if (workflows.length == 0) {
+        core.setFailed(`Failed to find any workflows matching these patterns:\n${inputs.runWorkflows}`);
+        return;
+    }
+
+    const results = await util.runConcurrently(
+        workflows,
+        inputs.maxParallel,
+        workflow => workflow.environment.runWorkflow(workflow.path, inputs.workflowProperties, inputs.workflowTimeout)
+    );
+
+    let workflowResults: WorkflowResult[] = [];
+    for (let i = 0; i < workflows.length; i++) {
+        const result = results[i];
+        if (result.status == 'fulfilled') {
+            workflowResults.push(result.value);
+        } else {
+            const relativePath = path.relative(process.cwd(), workflows[i].path);
+            core.error(`Failed to run '${relativePath}': ${result.reason}`, { file: relativePath });
+            workflowResults.push({
+                workflow: relativePath,
+                environment: workflows[i].environment.relativePath,
+                status: 'failed',
+                exitCode: -1,
+                duration: 0,
+            });
+        }
+    }
+    core.setOutput(Outputs.WorkflowResults, workflowResults);
+
+    const failedWorkflows = workflowResults.filter(r => r.status != 'passed');
+    if (failedWorkflows.length > 0) {
+        core.setFailed(`${failedWorkflows.length} of ${workflowResults.length} workflows did not complete successfully:\n${failedWorkflows.map(r => `${r.workflow} (${r.status})`).join('\n')}`);
+    }
+}
+
+function describePackage(nugetPackage: LocalNuGetPackage) {
+    return {
+        id: nugetPackage.id,
+        version: nugetPackage.version.toString(),
+        path: nugetPackage.path,
+    };
+}
+
+function selectInjectedPackages(environments: BonsaiEnvironment[], injectPackages: LocalNuGetPackage[]): Map<BonsaiEnvironment, LocalNuGetPackage[]> {
+    const result = new Map<BonsaiEnvironment, LocalNuGetPackage[]>();
+    if (injectPackages.length > 0) {
         for (const environment of environments) {
-            allSuccessful &&= await environment.bootstrap();
+            result.set(environment, environment.selectInjectedPackages(injectPackages));
         }
+    }
 
-        if (!allSuccessful) {
-            core.setFailed("Failed to restore one or more Bonsai environments.");
-            return;
+    return result;
+}
+
+// Only the versions selected by at least one environment are made available in the injected packages repo
+function getInjectedPackagesRepoContents(injectPackages: LocalNuGetPackage[], selectedPackages: Map<BonsaiEnvironment, LocalNuGetPackage[]>): Set<LocalNuGetPackage> {
+    const result = new Set<LocalNuGetPackage>([...selectedPackages.values()].flat());
+
+    for (const injectPackage of injectPackages) {
+        if (!result.has(injectPackage)) {
+            core.info(`Skipping ${injectPackage.id} version ${injectPackage.version} since no environment selected it`);
         }
     }
+
+    return result;
 }
 
-main().finally(async () => {
+// Reports what the action would do without actually downloading, modifying, or launching anything
+async function dryRun(environments: BonsaiEnvironment[], cache: SetupBonsaiCache, injectPackages: LocalNuGetPackage[], selectedPackages: Map<BonsaiEnvironment, LocalNuGetPackage[]>, injectedPackagesPath: string): Promise<void> {
+    for (const entry of cache.entries) {
+        core.info(`Would restore cache ${entry.primaryKey}${entry.environments.length > 0 ? ` for ${entry.environments.map(e => `'${e.relativePath}'`).join(', ')}` : ''}`);
+        core.info(`  Restore keys: ${entry.restoreKeys.join(', ')}`);
+    }
+
+    util.sectionHeading("Inject local package sources (dry run)");
+    addPackageSources(environments, cache, injectPackages, injectedPackagesPath);
+
+    if (injectPackages.length > 0) {
+        util.sectionHeading("Populate injected packages repo (dry run)");
+        for (const injectPackage of getInjectedPackagesRepoContents(injectPackages, selectedPackages)) {
+            core.info(`Would copy '${injectPackage.relativePath}' into the injected packages repo`);
+        }
+
+        util.sectionHeading("Inject packages (dry run)");
+        for (const environment of environments) {
+            await environment.injectPackages(selectedPackages.get(environment)!);
+        }
+    }
+
+    util.sectionHeading("Changes which would be made");
+    for (const environment of environments) {
+        environment.printPendingChanges();
+    }
+
+    core.info("Dry run complete, Bonsai was not downloaded or launched.");
+}
+
+function addPackageSources(environments: BonsaiEnvironment[], cache: SetupBonsaiCache, injectPackages: LocalNuGetPackage[], injectedPackagesPath: string): void {
+    // Sources are listed from highest to lowest priority, and all of them take priority over the sources already present in the environment
+    // (Extra package sources are allowed to replace existing sources so that workflows can redirect feeds the repository already uses.)
+    let packageSources = [
+        new NuGetPackageSource(`setup-bonsai cache ${util.invocationId}`, cache.packageCacheRoot),
+        ...parsePackageSources(inputs.extraPackageSources, true),
+    ];
+
+    if (injectPackages.length > 0) {
+        packageSources.unshift(new NuGetPackageSource(`setup-bonsai injected packages ${util.invocationId}`, injectedPackagesPath,));
+    }
+
+    core.info(`Injecting ${packageSources.length} package source${packageSources.length == 1 ? '' : 's'} into each environment`);
+    for (const environment of environments) {
+        environment.addPackageSources(packageSources);
+    }
+
+    if (inputs.packageSourceCredentials.length > 0) {
+        const credentials = parsePackageSourceCredentials(inputs.packageSourceCredentials);
+        for (const credential of credentials) {
+            core.setSecret(credential.password);
+            modificationLog.registerSecret(credential.password);
+        }
+
+        for (const environment of environments) {
+            const record = environment.addPackageSourceCredentials(credentials);
+            if (!inputs.dryRun) {
+                packageSourceCredentialsRecords.push(record);
+            }
+        }
+
+        // The post action removes the credentials once the job is done
+        core.saveState(State.PackageSourceCredentials, JSON.stringify(packageSourceCredentialsRecords));
+    }
+}
+
+// Once packages have been injected the dependency walk must be forced, and Bonsai.config is expected to change so it isn't checked when frozen
+async function bootstrapEnvironments(environments: BonsaiEnvironment[], frozenIgnoredPackageIds: Set<string>, afterInjection?: boolean): Promise<boolean> {
+    if (inputs.maxParallel > 1) {
+        core.info(`Bootstrapping up to ${inputs.maxParallel} environments at a time, output will be shown as each one completes.`);
+    }
+
+    // The snapshot is taken right before bootstrapping so that any changes made by the action itself are ignored
+    if (inputs.frozen && !afterInjection) {
+        for (const environment of environments) {
+            environment.snapshotConfig();
+        }
+    }
+
+    const results = await util.runConcurrently(environments, inputs.maxParallel, environment => environment.bootstrap(afterInjection));
+
+    // Failures are collected rather than stopping at the first one so that every broken environment is reported
+    let failedEnvironments: string[] = [];
+    for (let i = 0; i < environments.length; i++) {
+        const result = results[i];
+        if (result.status == 'rejected') {
+            core.error(`Failed to bootstrap '${environments[i].relativePath}': ${result.reason}`);
+            failedEnvironments.push(environments[i].relativePath);
+        } else if (!result.value) {
+            failedEnvironments.push(environments[i].relativePath);
+        }
+    }
+
+    if (failedEnvironments.length > 0) {
+        core.setFailed(`Failed to restore ${failedEnvironments.length} of ${environments.length} Bonsai environments:\n${failedEnvironments.join('\n')}`);
+        return false;
+    }
+
+    if (inputs.frozen && !afterInjection) {
+        let modifiedEnvironments: string[] = [];
+        for (const environment of environments) {
+            if (!environment.verifyConfigUnchanged(frozenIgnoredPackageIds)) {
+                modifiedEnvironments.push(environment.relativePath);
+            }
+        }
+
+        if (modifiedEnvironments.length > 0) {
+            core.setFailed(`Bonsai.config was modified by bootstrapping ${modifiedEnvironments.length} of ${environments.length} Bonsai environments:\n${modifiedEnvironments.join('\n')}`);
+            return false;
+        }
+    }
+
+    return true;
+}
+
+async function run(): Promise<void> {
+    try {
+        await main();
+    } catch (error) {
+        core.setFailed(error instanceof Error ? error : `${error}`);
+    }
+
+    // Credentials are only needed while bootstrapping, so remove them now rather than relying on the post action
+    if (packageSourceCredentialsRecords.length > 0) {
+        for (const record of packageSourceCredentialsRecords) {
+            BonsaiEnvironment.removePackageSourceCredentials(record);
+        }
+
+        packageSourceCredentialsRecords = [];
+        core.saveState(State.PackageSourceCredentials, JSON.stringify(packageSourceCredentialsRecords));
+    }
+
+    // The post action always runs, but it should only save the cache when we succeeded
+    if (!process.exitCode) {
+        core.saveState(State.MainSucceeded, 'true');
+    }
+
+    // The summary is written even when we fail since it's useful for understanding what went wrong
+    // (The summary is unavailable when testing locally since GITHUB_STEP_SUMMARY isn't set.)
+    if (process.env['GITHUB_STEP_SUMMARY'] && !suppressModificationLogArchival) {
+        try {
+            await jobSummary.write();
+        } catch (error) {
+            core.warning(`Failed to write job summary: ${error}`);
+        }
+    }
+
     // Capture the files we modified for debugging purposes
     if (core.isDebug() && !suppressModificationLogArchival) {
         await modificationLog.archiveModificationLog();
     }
-});
+}
+
+run();
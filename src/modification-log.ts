@@ -10,9 +10,32 @@ const modificationLogFileSuffix = '#MODIFICATION.log';
 const modifiedVersionSuffix = '#MODIFIED';
 const runInfoFileName = 'run-info.json';
 
+const secrets = new Set<string>();
+
+// Registers a value which must never appear in the archived modification log (IE: a credential we wrote to a file)
+export function registerSecret(value: string): void {
+    if (value) {
+        secrets.add(value);
+    }
+}
+
+function copyRedacted(sourcePath: string, destinationPath: string): void {
+    if (secrets.size == 0) {
+        fs.copyFileSync(sourcePath, destinationPath);
+        return;
+    }
+
+    let content = fs.readFileSync(sourcePath, 'utf8');
+    for (const secret of secrets) {
+        content = content.replaceAll(secret, '***');
+    }
+    fs.writeFileSync(destinationPath, content);
+}
+
 // Used to indicate an intent to modify a file that was provided by the user (IE: a file from the repo we're running for.)
 export function logFileModificationIntent(filePath: string, extraInfo?: any): void {
-    if (!core.isDebug() && !util.actionIsUnderTest) {
+    // Nothing is actually modified in dry run mode
+    if ((!core.isDebug() && !util.actionIsUnderTest) || util.inputs.dryRun) {
         return;
     }
 
@@ -85,7 +108,7 @@ export async function archiveModificationLog() {
         const relativePath = path.relative(backupRoot, filePath);
         const modifiedVersionPath = `${filePath}${modifiedVersionSuffix}${parsedFilePath.ext}`;
         if (fs.existsSync(relativePath)) {
-            fs.copyFileSync(relativePath, modifiedVersionPath);
+            copyRedacted(relativePath, modifiedVersionPath);
         } else {
             fs.writeFileSync(modifiedVersionPath, '!!! file was removed !!!');
         }
@@ -1,3 +1,4 @@
+import * as toolCache from '@actions/tool-cache';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as semver from 'semver';
@@ -26,6 +27,119 @@ export class NuGetPackageSource {
     }
 }
 
+export class NuGetPackageSourceCredential {
+    readonly sourceName: string;
+    readonly username: string;
+    readonly password: string;
+
+    public constructor(sourceName: string, username: string, password: string) {
+        if (!sourceName) {
+            throw Error("The name of the package source must be specified.");
+        }
+
+        if (!password) {
+            throw Error(`The password or token for package source '${sourceName}' must be specified.`);
+        }
+
+        this.sourceName = sourceName;
+        this.username = username;
+        this.password = password;
+    }
+}
+
+// Parses a list of package source credentials in the form `name=username:token`
+// The token may instead be a reference to an environment variable in the form `env:VARIABLE_NAME`.
+export function parsePackageSourceCredentials(lines: string[]): NuGetPackageSourceCredential[] {
+    let result: NuGetPackageSourceCredential[] = [];
+    for (const line of lines) {
+        const separatorIndex = line.indexOf('=');
+        const credentialSeparatorIndex = line.indexOf(':', separatorIndex);
+        if (separatorIndex < 0 || credentialSeparatorIndex < 0) {
+            // Don't include the line in the error, it contains a secret
+            throw Error(`Package source credential #${result.length + 1} is invalid, expected the form 'name=username:token'.`);
+        }
+
+        const name = line.substring(0, separatorIndex).trim();
+        const username = line.substring(separatorIndex + 1, credentialSeparatorIndex).trim();
+        let password = line.substring(credentialSeparatorIndex + 1).trim();
+
+        const environmentReference = password.match(/^env:(?<name>.+)$/);
+        if (environmentReference) {
+            const variableName = environmentReference.groups!.name;
+            password = process.env[variableName] ?? '';
+            if (!password) {
+                throw Error(`Environment variable '${variableName}' referenced by the credentials for package source '${name}' is not set.`);
+            }
+        }
+
+        result.push(new NuGetPackageSourceCredential(name, username, password));
+    }
+
+    return result;
+}
+
+// Parses a list of package sources in the form `name=url`
+// Sources which aren't URLs are assumed to be local folder feeds and are resolved relative to the working directory.
+export function parsePackageSources(lines: string[], allowUpdate: boolean = false): NuGetPackageSource[] {
+    let result: NuGetPackageSource[] = [];
+    for (const line of lines) {
+        const separatorIndex = line.indexOf('=');
+        if (separatorIndex < 0) {
+            throw Error(`Package source '${line}' is invalid, expected the form 'name=url'.`);
+        }
+
+        const name = line.substring(0, separatorIndex).trim();
+        let url = line.substring(separatorIndex + 1).trim();
+        if (!url.match(/^[a-z][a-z0-9+.\-]*:\/\//i)) {
+            url = path.resolve(url);
+        }
+
+        result.push(new NuGetPackageSource(name, url, allowUpdate));
+    }
+
+    return result;
+}
+
+export class NuGetPackageOverride {
+    readonly id: string;
+    readonly version: NuGetVersion;
+
+    public constructor(id: string, version: NuGetVersion) {
+        this.id = id;
+        this.version = version;
+    }
+}
+
+// Parses a list of package version overrides in the form `id=version`
+export function parsePackageOverrides(lines: string[]): NuGetPackageOverride[] {
+    let result: NuGetPackageOverride[] = [];
+    for (const line of lines) {
+        const separatorIndex = line.indexOf('=');
+        if (separatorIndex < 0) {
+            throw Error(`Package override '${line}' is invalid, expected the form 'id=version'.`);
+        }
+
+        const id = line.substring(0, separatorIndex).trim();
+        if (id.toLowerCase() == 'bonsai') {
+            throw Error(`Package override '${line}' is invalid, use the bonsai-version input to override the version of Bonsai itself.`);
+        }
+
+        const versionString = line.substring(separatorIndex + 1).trim();
+        const version = parseNuGetVersion(versionString);
+        if (!version) {
+            throw Error(`Package override '${line}' specifies an invalid version '${versionString}'.`);
+        }
+
+        if (result.some(o => o.id.toLowerCase() == id.toLowerCase())) {
+            throw Error(`Package '${id}' is overridden more than once.`);
+        }
+
+        result.push(new NuGetPackageOverride(id, version));
+    }
+
+    return result;
+}
+
 export class LocalNuGetPackage {
     readonly id: string;
     readonly version: NuGetVersion;
@@ -136,6 +250,16 @@ export function isSemVer(version: NuGetVersion): version is SemVer {
     return !isLegacyVersion(version);
 }
 
+export function compareNuGetVersions(a: NuGetVersion, b: NuGetVersion): number {
+    // Legacy versions sort by their revision between the patch version and the prerelease label
+    const aSemVer = isLegacyVersion(a) ? a.semverPart : a;
+    const bSemVer = isLegacyVersion(b) ? b.semverPart : b;
+    const aRevision = isLegacyVersion(a) ? a.revision : 0;
+    const bRevision = isLegacyVersion(b) ? b.revision : 0;
+
+    return aSemVer.compareMain(bSemVer) || Math.sign(aRevision - bRevision) || aSemVer.comparePre(bSemVer);
+}
+
 export function parseNuGetVersion(version: string): NuGetVersion | null {
     // First try parsing as a semver
     let semverResult = semver.parse(version);
@@ -161,3 +285,30 @@ export function parseNuGetVersion(version: string): NuGetVersion | null {
         return semverResult;
     }
 }
+
+// The subset of a NuGet v3 service index we care about
+// https://learn.microsoft.com/en-us/nuget/api/service-index
+interface ServiceIndex {
+    resources: { '@id': string, '@type': string }[];
+}
+
+// Resolves the download URL of a package from a NuGet v3 feed using its package base address resource
+// https://learn.microsoft.com/en-us/nuget/api/package-base-address-resource
+export async function getPackageDownloadUrl(feedUrl: string, id: string, version: NuGetVersion): Promise<string> {
+    const serviceIndexPath = await toolCache.downloadTool(feedUrl);
+    let serviceIndex: ServiceIndex | undefined;
+    try {
+        serviceIndex = JSON.parse(fs.readFileSync(serviceIndexPath, 'utf8'));
+    } finally {
+        fs.unlinkSync(serviceIndexPath);
+    }
+
+    const packageBaseAddress = serviceIndex?.resources?.find(r => r['@type'] == 'PackageBaseAddress/3.0.0')?.['@id'];
+    if (!packageBaseAddress) {
+        throw Error(`'${feedUrl}' does not appear to be a NuGet v3 feed, it has no PackageBaseAddress resource.`);
+    }
+
+    const lowerId = id.toLowerCase();
+    const lowerVersion = version.toString().toLowerCase();
+    return `${packageBaseAddress.replace(/\/?$/, '/')}${lowerId}/${lowerVersion}/${lowerId}.${lowerVersion}.nupkg`;
+}
@@ -1,10 +1,31 @@
 import * as core from '@actions/core';
+import { BonsaiEnvironment, PackageSourceCredentialsRecord } from './bonsai';
 import { CacheState, SetupBonsaiCache } from './cache';
 import * as util from './util';
+import { State } from './util';
 
 async function main(): Promise<void> {
     core.debug(`Starting post action for invocation ${util.invocationId}`);
 
+    if (util.inputs.dryRun) {
+        core.debug("Dry run, nothing to do.");
+        return;
+    }
+
+    // Remove any credentials we added so they don't linger on disk
+    const packageSourceCredentials = core.getState(State.PackageSourceCredentials);
+    if (packageSourceCredentials) {
+        for (const record of <PackageSourceCredentialsRecord[]>JSON.parse(packageSourceCredentials)) {
+            BonsaiEnvironment.removePackageSourceCredentials(record);
+        }
+    }
+
+    // The post action runs even when the main action fails, but a failed run's cache shouldn't be saved
+    if (!core.getState(State.MainSucceeded)) {
+        core.debug("Main action did not succeed, not saving cache.");
+        return;
+    }
+
     if (!util.inputs.enableCache) {
         core.debug("Cache is disabled, nothing to do.");
         return;
@@ -17,10 +38,7 @@ async function main(): Promise<void> {
         return;
     }
 
-    const cacheId = await cache.uploadCache();
-    if (cacheId != -1) {
-        core.info(`Cache successfully saved with key '${cache.primaryKey}'`);
-    }
+    await cache.uploadCache();
 }
 
 main();
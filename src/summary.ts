@@ -0,0 +1,126 @@
+import * as core from '@actions/core';
+import { SummaryTableRow } from '@actions/core/lib/summary';
+import * as path from 'path';
+import { BonsaiEnvironment } from './bonsai';
+import { SetupBonsaiCache } from './cache';
+import { LocalNuGetPackage } from './nuget';
+import * as util from './util';
+
+// Collects information about the action invocation as it runs so that it can be presented in the job summary
+export class JobSummary {
+    environments: BonsaiEnvironment[] = [];
+    injectPackages: LocalNuGetPackage[] = [];
+    cache: SetupBonsaiCache | null = null;
+
+    private static escape(text: string): string {
+        return text
+            .replaceAll('&', '&amp;')
+            .replaceAll('<', '&lt;')
+            .replaceAll('>', '&gt;');
+    }
+
+    private static code(text: string): string {
+        return `<code>${JobSummary.escape(text)}</code>`;
+    }
+
+    private static header(...titles: string[]): SummaryTableRow {
+        return titles.map(t => ({ data: t, header: true }));
+    }
+
+    private addEnvironments(): void {
+        if (this.environments.length == 0) {
+            return;
+        }
+
+        core.summary.addHeading('Environments', 3);
+        core.summary.addTable([
+            JobSummary.header('Environment', 'Bonsai version', 'Packages'),
+            ...this.environments.map(e => [
+                JobSummary.code(e.relativePath),
+                JobSummary.escape(e.bonsaiVersion.toString()),
+                e.getConfiguredPackageCount().toString(),
+            ]),
+        ]);
+    }
+
+    private addCache(): void {
+        if (!this.cache) {
+            return;
+        }
+
+        core.summary.addHeading('Cache', 3);
+        if (!this.cache.isEnabled) {
+            core.summary.addRaw('Caching is disabled.', true);
+            return;
+        }
+
+        // Archive stats are only known for entries which were captured by this run
+        core.summary.addTable([
+            JobSummary.header('Key', 'Cache hit', 'Restored from', 'Archive size', 'Archive time'),
+            ...this.cache.entries.map(e => [
+                JobSummary.code(e.primaryKey),
+                e.state,
+                e.restoredFrom ? JobSummary.code(e.restoredFrom) : '',
+                e.archiveSize !== null ? `${e.archiveSize} bytes` : '',
+                e.archiveDuration !== null ? `${(e.archiveDuration / 1000).toFixed(1)} s` : '',
+            ]),
+        ]);
+
+        if (this.cache.prunedBytes !== null) {
+            core.summary.addRaw(`Pruned ${this.cache.prunedBytes} bytes of unreferenced packages from the package cache.`, true);
+        }
+    }
+
+    private async addInjectedPackages(): Promise<void> {
+        if (this.injectPackages.length == 0) {
+            return;
+        }
+
+        // A package landed in an environment if it was actually installed to its Packages folder
+        let rows: SummaryTableRow[] = [JobSummary.header('Package', 'Version', 'Environments')];
+        for (const injectPackage of this.injectPackages) {
+            const packageFileName = `${injectPackage.id}.${injectPackage.version}.nupkg`.toLowerCase();
+            let landedIn: string[] = [];
+            for (const environment of this.environments) {
+                const installedPackages = await environment.getInstalledPackagePaths();
+                if (installedPackages.some(p => path.basename(p).toLowerCase() == packageFileName)) {
+                    landedIn.push(JobSummary.code(environment.relativePath));
+                }
+            }
+
+            rows.push([
+                JobSummary.escape(injectPackage.id),
+                JobSummary.escape(injectPackage.version.toString()),
+                landedIn.length > 0 ? landedIn.join('<br>') : '<em>None</em>',
+            ]);
+        }
+
+        core.summary.addHeading('Injected packages', 3);
+        core.summary.addTable(rows);
+    }
+
+    private addPhases(): void {
+        util.endCurrentPhase();
+        if (util.phases.length == 0) {
+            return;
+        }
+
+        core.summary.addHeading('Timing', 3);
+        core.summary.addTable([
+            JobSummary.header('Phase', 'Duration'),
+            ...util.phases.map(p => [
+                JobSummary.escape(p.title),
+                `${(((p.endTime ?? performance.now()) - p.startTime) / 1000).toFixed(1)} s`,
+            ]),
+        ]);
+    }
+
+    public async write(): Promise<void> {
+        core.summary.addHeading(`setup-bonsai${util.inputs.dryRun ? ' (dry run)' : ''}`, 2);
+        this.addEnvironments();
+        this.addCache();
+        await this.addInjectedPackages();
+        this.addPhases();
+        await core.summary.write();
+    }
+}
@@ -29,22 +29,57 @@ process.on('uncaughtException', (err, origin) => {
 
 export const actionIsUnderTest = !!process.env['__TEST_INVOCATION_ID'];
 
+function getIntegerInput(name: string, minimum: number): number {
+    const text = core.getInput(name, { required: true });
+    const result = Number(text);
+    if (!Number.isInteger(result) || result < minimum) {
+        throw Error(`Input '${name}' must be an integer no less than ${minimum}, got '${text}'.`);
+    }
+
+    return result;
+}
+
 export const inputs = {
     environmentPaths: core.getInput('environment-paths', { required: true }),
     injectPackages: core.getInput('inject-packages'),
     enableCache: core.getBooleanInput('enable-cache', { required: true }),
     cacheKeyPrefix: core.getInput('cache-key-prefix'),
+    cacheMode: core.getInput('cache-mode', { required: true }),
+    cacheCompression: core.getInput('cache-compression', { required: true }),
+    bonsaiSources: core.getMultilineInput('bonsai-sources', { required: true }),
+    bonsaiChecksums: core.getMultilineInput('bonsai-checksums'),
+    bonsaiCiSources: core.getMultilineInput('bonsai-ci-sources'),
+    maxParallel: getIntegerInput('max-parallel', 1),
+    extraPackageSources: core.getMultilineInput('extra-package-sources'),
+    packageSourceCredentials: core.getMultilineInput('package-source-credentials'),
+    dryRun: core.getBooleanInput('dry-run', { required: true }),
+    generateLockFile: core.getBooleanInput('generate-lock-file', { required: true }),
+    lockedMode: core.getBooleanInput('locked-mode', { required: true }),
+    frozen: core.getBooleanInput('frozen', { required: true }),
+    strictConfigValidation: core.getBooleanInput('strict-config-validation', { required: true }),
+    bonsaiVersion: core.getInput('bonsai-version'),
+    packageOverrides: core.getMultilineInput('package-overrides'),
+    runWorkflows: core.getInput('run-workflows'),
+    workflowProperties: core.getMultilineInput('workflow-properties'),
+    workflowTimeout: getIntegerInput('workflow-timeout', 0),
+    checkWorkflows: core.getBooleanInput('check-workflows', { required: true }),
+    launcher: core.getInput('launcher'),
+    bootstrapRetries: getIntegerInput('bootstrap-retries', 0),
 };
 
 export enum State {
     ActionInvocationId = 'ActionInvocationId',
-    CachePrimaryKey = 'CachePrimaryKey',
-    CacheRestoredFrom = 'CacheRestoredFrom',
+    CacheEntries = 'CacheEntries',
     CacheIsIncomplete = 'CacheIsIncomplete',
+    PackageSourceCredentials = 'PackageSourceCredentials',
+    MainSucceeded = 'MainSucceeded',
 }
 
 export enum Outputs {
     CacheHit = 'cache-hit',
+    Environments = 'environments',
+    InjectedPackages = 'injected-packages',
+    WorkflowResults = 'workflow-results',
 }
 
 export const invocationId = (() => {
@@ -131,6 +166,86 @@ export function xmlToString(xml: XmlNode): string {
     return result;
 }
 
+// Encodes a string as an XML element name the same way as .NET's XmlConvert.EncodeLocalName (which is what NuGet uses for source names in <packageSourceCredentials>)
+// https://learn.microsoft.com/en-us/dotnet/api/system.xml.xmlconvert.encodelocalname
+export function encodeXmlName(name: string): string {
+    let result = '';
+    for (let i = 0; i < name.length; i++) {
+        const c = name[i];
+        const isValid = i == 0 ? /[A-Za-z_]/.test(c) : /[A-Za-z0-9_\-.]/.test(c);
+
+        // Underscores which could be confused for an escape sequence must be escaped themselves
+        const looksLikeEscape = c == '_' && /^_x[0-9A-Fa-f]{4}_/.test(name.substring(i));
+
+        if (isValid && !looksLikeEscape) {
+            result += c;
+        } else {
+            result += `_x${c.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}_`;
+        }
+    }
+
+    return result;
+}
+
+// Formats a unified diff of two texts, intended for showing changes to small files such as configuration files to humans
+export function formatLineDiff(before: string, after: string, fileName: string, contextLines: number = 3): string {
+    const a = before.split(/\r?\n/);
+    const b = after.split(/\r?\n/);
+
+    // Compute the longest common subsequence table (these files are tiny so the quadratic cost is fine)
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    // Walk the table to produce the edit script
+    let lines: { prefix: ' ' | '-' | '+', text: string, aLine: number, bLine: number }[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            lines.push({ prefix: ' ', text: a[i], aLine: i++, bLine: j++ });
+        } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            lines.push({ prefix: '-', text: a[i], aLine: i++, bLine: j });
+        } else {
+            lines.push({ prefix: '+', text: b[j], aLine: i, bLine: j++ });
+        }
+    }
+
+    // Group the changes into hunks with some surrounding context
+    let result = `--- ${fileName}\n+++ ${fileName}`;
+    let index = 0;
+    while (index < lines.length) {
+        if (lines[index].prefix == ' ') {
+            index++;
+            continue;
+        }
+
+        const hunkStart = Math.max(0, index - contextLines);
+        let hunkEnd = index;
+        let unchangedRun = 0;
+        while (hunkEnd < lines.length && unchangedRun <= contextLines * 2) {
+            unchangedRun = lines[hunkEnd].prefix == ' ' ? unchangedRun + 1 : 0;
+            hunkEnd++;
+        }
+        hunkEnd -= Math.max(0, unchangedRun - contextLines);
+
+        const hunk = lines.slice(hunkStart, hunkEnd);
+        const aCount = hunk.filter(l => l.prefix != '+').length;
+        const bCount = hunk.filter(l => l.prefix != '-').length;
+        result += `\n@@ -${hunk[0].aLine + 1},${aCount} +${hunk[0].bLine + 1},${bCount} @@`;
+        for (const line of hunk) {
+            result += `\n${line.prefix}${line.text}`;
+        }
+
+        index = hunkEnd;
+    }
+
+    return result;
+}
+
 // Copied from https://github.com/actions/toolkit/blob/36db4d62adf0bf89f2ebae569f59279e55bcd67f/packages/glob/src/internal-pattern.ts#L189
 export function globEscape(s: string): string {
     return (process.platform === 'win32' ? s : s.replace(/\\/g, '\\\\')) // escape '\' on Linux/macOS
@@ -148,6 +263,31 @@ export async function hashFile(filePath: string): Promise<string> {
     return hash.digest('hex');
 }
 
+// Reads the ProductVersion string from the version resource of a Windows executable
+// Rather than properly walking the PE resource directory we simply look for the ProductVersion entry of the VS_VERSION_INFO string table, which is plenty for our purposes.
+// https://learn.microsoft.com/en-us/windows/win32/menurc/string-str
+export function getExecutableProductVersion(executable: Buffer): string | null {
+    const key = Buffer.from('ProductVersion\0', 'utf16le');
+    const keyStart = executable.indexOf(key);
+
+    // The key is preceded by three WORDs (wLength, wValueLength, and wType)
+    const entryStart = keyStart - 6;
+    if (keyStart < 0 || entryStart < 0) {
+        return null;
+    }
+
+    // The value follows the key, aligned to a 32-bit boundary
+    let valueStart = keyStart + key.length;
+    valueStart += (4 - ((valueStart - entryStart) % 4)) % 4;
+
+    let valueEnd = valueStart;
+    while (valueEnd + 1 < executable.length && executable.readUInt16LE(valueEnd) != 0) {
+        valueEnd += 2;
+    }
+
+    return executable.toString('utf16le', valueStart, valueEnd);
+}
+
 export async function uploadDebugArtifact(artifactName: string, humanName: string, filePaths: string[], commonRoot: string) {
     // Nothing to do when not debugging, and the artifacts service is not available for local tests
     if (!core.isDebug() || actionIsUnderTest) {
@@ -165,8 +305,53 @@ export async function uploadDebugArtifact(artifactName: string, humanName: strin
     core.info(`Upload complete: ${artifactInfo.id} (bytes: ${artifactInfo.size})`);
 }
 
+// Runs the specified action for each item with at most maxParallel actions in flight at once
+// Results are returned in the same order as the items, and failures do not prevent the remaining items from running.
+export async function runConcurrently<T, TResult>(
+    items: T[],
+    maxParallel: number,
+    action: (item: T) => Promise<TResult>
+): Promise<PromiseSettledResult<TResult>[]> {
+    const results = new Array<PromiseSettledResult<TResult>>(items.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            try {
+                results[index] = { status: 'fulfilled', value: await action(items[index]) };
+            } catch (error) {
+                results[index] = { status: 'rejected', reason: error };
+            }
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(maxParallel, items.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    return results;
+}
+
+export interface Phase {
+    title: string;
+    startTime: number;
+    endTime: number | null;
+}
+
+// Each section heading marks the start of a new phase of the action, this is used to report how long each phase took
+export const phases: Phase[] = [];
+
+export function endCurrentPhase(): void {
+    const currentPhase = phases.at(-1);
+    if (currentPhase && currentPhase.endTime === null) {
+        currentPhase.endTime = performance.now();
+    }
+}
+
 const headingBorder = '='.repeat(120);
 export function sectionHeading(title: string, quietCondition?: boolean) {
+    endCurrentPhase();
+    phases.push({ title: title, startTime: performance.now(), endTime: null });
+
     if (quietCondition) {
         core.info(`========== ${title} ==========`);
         return;
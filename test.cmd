@@ -7,6 +7,20 @@ set INPUT_ENVIRONMENT-PATHS=**/.bonsai/
 set INPUT_INJECT-PACKAGES=test-packages/*.nupkg
 set INPUT_ENABLE-CACHE=true
 
+:: The remaining inputs are required since GitHub always supplies their defaults, so they must be kept in sync with action.yml
+set INPUT_CACHE-MODE=combined
+set INPUT_CACHE-COMPRESSION=gzip
+set INPUT_BONSAI-SOURCES=https://github.com/bonsai-rx/bonsai/releases/download/{version}/Bonsai.zip
+set INPUT_MAX-PARALLEL=1
+set INPUT_DRY-RUN=false
+set INPUT_GENERATE-LOCK-FILE=false
+set INPUT_LOCKED-MODE=false
+set INPUT_FROZEN=false
+set INPUT_STRICT-CONFIG-VALIDATION=false
+set INPUT_WORKFLOW-TIMEOUT=0
+set INPUT_CHECK-WORKFLOWS=false
+set INPUT_BOOTSTRAP-RETRIES=2
+
 set __TEST_INVOCATION_ID=DummyInvocationId
 set RUNNER_DEBUG=1
 set RUNNER_TEMP=%~dp0scratch/RUNNER_TEMP/